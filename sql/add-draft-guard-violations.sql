@@ -0,0 +1,15 @@
+-- ============================================================================
+-- DRAFT VERIFICATION
+-- Stores values in a generated draft that could not be matched to tool data
+-- (prices, SKUs, CAS numbers, order numbers, tracking numbers)
+-- ============================================================================
+
+ALTER TABLE email_response_drafts
+ADD COLUMN IF NOT EXISTS guard_violations JSONB DEFAULT '[]';
+
+-- Quickly find drafts that need a closer look
+CREATE INDEX IF NOT EXISTS idx_drafts_guard_violations
+ON email_response_drafts ((jsonb_array_length(guard_violations)))
+WHERE jsonb_array_length(guard_violations) > 0;
+
+COMMENT ON COLUMN email_response_drafts.guard_violations IS 'Ungrounded values found by the post-generation verifier: [{type, value, reason}]';
@@ -0,0 +1,13 @@
+-- ============================================================================
+-- DRAFT INTENTS
+-- Intents the agent detected for each draft, so edit rates can be
+-- tracked per intent and fed back into confidence scoring
+-- ============================================================================
+
+ALTER TABLE email_response_drafts
+ADD COLUMN IF NOT EXISTS intents JSONB DEFAULT '[]';
+
+CREATE INDEX IF NOT EXISTS idx_drafts_intents
+ON email_response_drafts USING GIN (intents);
+
+COMMENT ON COLUMN email_response_drafts.intents IS 'Agent intent categories for the draft, e.g. ["order_status", "quote_request"]';
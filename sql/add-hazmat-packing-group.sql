@@ -0,0 +1,11 @@
+-- ============================================================================
+-- HAZMAT PACKING GROUP
+-- Packing group alongside UN number and hazard class, so quotes can work
+-- out limited quantity eligibility and allowed service modes.
+-- Requires create-product-schema.sql.
+-- ============================================================================
+
+ALTER TABLE alliance_products
+ADD COLUMN IF NOT EXISTS packing_group VARCHAR(3) CHECK (packing_group IN ('I', 'II', 'III'));
+
+COMMENT ON COLUMN alliance_products.packing_group IS 'DOT packing group (I = great danger, III = minor danger); NULL when not regulated or not known';
@@ -0,0 +1,19 @@
+-- ============================================================================
+-- SEMANTIC RESPONSE CACHE
+-- Lets reworded questions reuse a draft: entries are matched by embedding
+-- similarity within the same customer/context fingerprint.
+-- Requires enable-pgvector.sql and create-prompt-management-schema.sql.
+-- ============================================================================
+
+ALTER TABLE response_cache
+ADD COLUMN IF NOT EXISTS embedding vector(1536),
+ADD COLUMN IF NOT EXISTS fingerprint VARCHAR(64),
+ADD COLUMN IF NOT EXISTS agent_response JSONB;
+
+CREATE INDEX IF NOT EXISTS idx_response_cache_fingerprint ON response_cache(fingerprint);
+CREATE INDEX IF NOT EXISTS idx_response_cache_embedding ON response_cache
+  USING hnsw (embedding vector_cosine_ops);
+
+COMMENT ON COLUMN response_cache.embedding IS 'Embedding of the normalized customer question';
+COMMENT ON COLUMN response_cache.fingerprint IS 'Hash of the customer and reply context; entries only match within a fingerprint';
+COMMENT ON COLUMN response_cache.agent_response IS 'Full agent response served on a cache hit';
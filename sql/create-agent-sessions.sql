@@ -0,0 +1,41 @@
+-- ============================================================================
+-- AGENT CONVERSATION SESSIONS
+-- Persistent per-thread state so follow-up emails build on earlier turns
+-- ============================================================================
+
+-- One session per email conversation/thread
+CREATE TABLE IF NOT EXISTS agent_sessions (
+  id SERIAL PRIMARY KEY,
+  conversation_id TEXT UNIQUE NOT NULL, -- Outlook conversationId or first message_id
+  customer_email TEXT,
+  
+  -- Carried-over state, e.g. {"active_quote": {"quote_number": "...", "items": [...]}}
+  state JSONB DEFAULT '{}',
+  turn_count INTEGER DEFAULT 0,
+  
+  created_at TIMESTAMP DEFAULT NOW(),
+  updated_at TIMESTAMP DEFAULT NOW()
+);
+
+-- Each inbound message and what the agent did with it
+CREATE TABLE IF NOT EXISTS agent_session_turns (
+  id SERIAL PRIMARY KEY,
+  session_id INTEGER REFERENCES agent_sessions(id) ON DELETE CASCADE,
+  turn_number INTEGER NOT NULL,
+  message_id TEXT,
+  
+  inbound_message TEXT NOT NULL,
+  tool_calls JSONB DEFAULT '[]',
+  tool_results JSONB DEFAULT '[]',
+  draft_response TEXT,
+  sent_reply TEXT, -- Filled in when the reviewed reply is sent
+  
+  created_at TIMESTAMP DEFAULT NOW(),
+  sent_at TIMESTAMP,
+  
+  UNIQUE(session_id, turn_number)
+);
+
+CREATE INDEX IF NOT EXISTS idx_session_turns_session ON agent_session_turns(session_id, turn_number DESC);
+CREATE INDEX IF NOT EXISTS idx_session_turns_message ON agent_session_turns(message_id);
+CREATE INDEX IF NOT EXISTS idx_sessions_customer ON agent_sessions(customer_email);
@@ -0,0 +1,29 @@
+-- ============================================================================
+-- AGENT EXECUTION TRACES
+-- One row per agent run so a bad draft can be traced back to its inputs
+-- ============================================================================
+
+CREATE TABLE IF NOT EXISTS agent_traces (
+  id SERIAL PRIMARY KEY,
+  trace_id TEXT UNIQUE NOT NULL,
+  dry_run BOOLEAN DEFAULT false,
+  
+  -- What was asked
+  message TEXT NOT NULL,
+  email_id TEXT,
+  conversation_id TEXT,
+  
+  -- What the agent decided and did
+  routing TEXT, -- llm, regex
+  intents JSONB DEFAULT '[]',
+  tools JSONB DEFAULT '[]', -- [{tool, parameters, output, error, duration_ms}]
+  sections JSONB DEFAULT '[]', -- [{category, template_id, system_prompt, user_prompt}]
+  model_params JSONB DEFAULT '{}',
+  guard JSONB,
+  
+  duration_ms INTEGER,
+  created_at TIMESTAMP DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_agent_traces_email ON agent_traces(email_id);
+CREATE INDEX IF NOT EXISTS idx_agent_traces_created ON agent_traces(created_at DESC);
@@ -0,0 +1,90 @@
+-- ============================================================================
+-- OUTBOUND CONTENT POLICY
+-- Rules every generated draft is checked against before review.
+-- A violated 'block' rule stops the draft from being auto-approved.
+-- ============================================================================
+
+CREATE TABLE IF NOT EXISTS content_policy_rules (
+  id SERIAL PRIMARY KEY,
+  rule_key VARCHAR(100) UNIQUE NOT NULL, -- e.g. 'max_discount'
+  description TEXT NOT NULL, -- Shown to the reviewer when violated
+
+  -- max_discount:     {"max_percent": 10}
+  -- forbidden_phrase: {"patterns": ["regex", ...]}
+  -- required_phrase:  {"patterns": ["regex", ...], "when_fields": ["hazard_class"]}
+  --                   (required only when a tool result has one of the fields set)
+  rule_type VARCHAR(50) NOT NULL,
+  config JSONB NOT NULL DEFAULT '{}',
+  severity VARCHAR(20) DEFAULT 'block', -- block, warn
+
+  -- Intents the rule applies to; empty = every draft
+  intents JSONB DEFAULT '[]',
+
+  is_active BOOLEAN DEFAULT true,
+  created_at TIMESTAMP DEFAULT NOW(),
+  updated_at TIMESTAMP DEFAULT NOW(),
+  updated_by VARCHAR(255)
+);
+
+CREATE INDEX IF NOT EXISTS idx_content_policy_rules_active ON content_policy_rules(is_active);
+
+CREATE TRIGGER update_content_policy_rules_updated_at
+  BEFORE UPDATE ON content_policy_rules
+  FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
+
+-- ============================================================================
+-- DRAFT POLICY RESULTS
+-- ============================================================================
+
+ALTER TABLE email_response_drafts
+ADD COLUMN IF NOT EXISTS policy_violations JSONB DEFAULT '[]',
+ADD COLUMN IF NOT EXISTS auto_approvable BOOLEAN DEFAULT false;
+
+COMMENT ON COLUMN email_response_drafts.policy_violations IS 'Content policy rules the draft broke: [{rule_key, rule_type, severity, description, excerpt}]';
+COMMENT ON COLUMN email_response_drafts.auto_approvable IS 'False when the draft failed verification or broke a blocking policy rule';
+
+-- ============================================================================
+-- SEED DATA
+-- ============================================================================
+
+INSERT INTO content_policy_rules (rule_key, description, rule_type, config, severity) VALUES
+  ('max_discount',
+   'Discounts over 10% need manager approval',
+   'max_discount',
+   '{"max_percent": 10}',
+   'block'),
+  ('no_safety_claims',
+   'No medical or safety claims - refer the customer to the SDS instead',
+   'forbidden_phrase',
+   '{"patterns": [
+      "\\b(completely |perfectly |totally )?(safe|harmless) (to|for) (drink|ingest|eat|touch|handle|breathe|inhale|use on skin|use around)",
+      "\\bnon-?toxic\\b",
+      "\\bno (ppe|gloves|ventilation|respirator|protection) (is )?(needed|required|necessary)",
+      "\\b(cures?|treats?|heals?|prevents?) (infections?|disease|wounds?|burns?|covid|illness)",
+      "\\b(medically|clinically) (proven|safe|approved)",
+      "\\bif (swallowed|ingested|inhaled),? (just|simply)"
+    ]}',
+   'block'),
+  ('no_competitor_disparagement',
+   'Do not criticize competitors or other suppliers',
+   'forbidden_phrase',
+   '{"patterns": [
+      "\\b(competitors?|other (suppliers?|vendors?|distributors?|companies))(''s)? (products? )?(are|is|sells?|ships?)( [a-z]+){0,3} (inferior|worse|unreliable|low[- ]quality|cheap|dangerous|contaminated|a scam|diluted)",
+      "\\bunlike (our )?(competitors?|other (suppliers?|vendors?|distributors?))[^.]{0,60}\\b(we actually|we don''t cut corners|honest)"
+    ]}',
+   'block'),
+  ('no_delivery_guarantee',
+   'Do not guarantee delivery dates - carriers set transit times',
+   'forbidden_phrase',
+   '{"patterns": [
+      "\\bguarantee(d|s)? (delivery|arrival|it will arrive|to arrive|it arrives)",
+      "\\b(will|is going to) (definitely|certainly) (arrive|be delivered)"
+    ]}',
+   'block'),
+  ('hazmat_disclaimer',
+   'Replies about hazardous materials must mention hazmat shipping or the SDS',
+   'required_phrase',
+   '{"patterns": ["\\bhazmat\\b", "hazardous material", "\\bSDS\\b", "safety data sheet"],
+     "when_fields": ["hazard_class", "hazmat_fee", "hazmat_fees"]}',
+   'block')
+ON CONFLICT (rule_key) DO NOTHING;
@@ -0,0 +1,72 @@
+-- ============================================================================
+-- COMPANY KNOWLEDGE BASE
+-- Facts and FAQ answers the agent may state, editable without a deploy
+-- ============================================================================
+
+CREATE TABLE IF NOT EXISTS knowledge_facts (
+  id SERIAL PRIMARY KEY,
+  fact_key VARCHAR(100) UNIQUE NOT NULL, -- e.g. 'return_policy'
+  category VARCHAR(50) NOT NULL, -- company, shipping, pricing, product, policy, contact, safety
+  content TEXT NOT NULL,
+  
+  -- Intents this fact is relevant to; empty = every reply
+  -- e.g. ["quote_request"] or ["order_status", "general"]
+  intents JSONB DEFAULT '[]',
+  priority INTEGER DEFAULT 0, -- Higher first
+  
+  is_active BOOLEAN DEFAULT true,
+  effective_from TIMESTAMP DEFAULT NOW(),
+  effective_until TIMESTAMP, -- NULL = no end date
+  
+  created_at TIMESTAMP DEFAULT NOW(),
+  updated_at TIMESTAMP DEFAULT NOW(),
+  updated_by VARCHAR(255)
+);
+
+CREATE INDEX IF NOT EXISTS idx_knowledge_facts_active ON knowledge_facts(is_active, effective_until);
+CREATE INDEX IF NOT EXISTS idx_knowledge_facts_intents ON knowledge_facts USING GIN (intents);
+
+CREATE TRIGGER update_knowledge_facts_updated_at 
+  BEFORE UPDATE ON knowledge_facts
+  FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
+
+-- ============================================================================
+-- SEED DATA - the facts previously hard-coded in the agent prompts
+-- ============================================================================
+
+INSERT INTO knowledge_facts (fact_key, category, content, intents, priority) VALUES
+  -- Every reply
+  ('company_location', 'company', 'Alliance Chemical is a chemical distributor based in Austin, Texas', '[]', 100),
+  ('shipping_carriers', 'shipping', 'We ship nationwide via UPS (small packages) and freight carriers (XPO, ABF, SAIA for bulk)', '[]', 90),
+  ('documentation', 'product', 'We provide COAs (Certificates of Analysis), SDS sheets, and other certificates upon request', '[]', 90),
+  ('business_hours', 'contact', 'Our standard business hours are Monday-Friday 8AM-5PM CST', '[]', 80),
+  ('retail_wholesale', 'pricing', 'We offer both retail and wholesale pricing', '[]', 70),
+  ('po_terms', 'policy', 'We accept POs from established customers with NET 30 terms', '[]', 70),
+  ('new_customer_payment', 'policy', 'New customers typically use credit card or wire transfer', '[]', 70),
+  ('payment_methods', 'policy', 'Payment methods: Credit card, Wire transfer, ACH, Purchase Order (approved accounts)', '[]', 60),
+  ('return_policy', 'policy', 'Return policy: Unopened products within 30 days with 15% restocking fee', '[]', 60),
+  ('chemtrec', 'safety', 'Emergency spill hotline: 1-800-424-9300 (CHEMTREC)', '[]', 60),
+  ('contact', 'contact', 'Phone: 512-555-0100 | Email: sales@alliancechemical.com', '[]', 60),
+  ('insurance', 'company', 'We maintain $5M in liability insurance', '[]', 50),
+  ('iso_certification', 'company', 'ISO 9001:2015 certified facility', '[]', 50),
+  
+  -- Order inquiries
+  ('shipping_times', 'shipping', 'Standard shipping times: 1-2 days for UPS, 3-5 days for freight', '["order_status"]', 40),
+  ('same_day_cutoff', 'shipping', 'Orders ship same day if placed before 2PM CST', '["order_status"]', 40),
+  ('tracking_emails', 'shipping', 'Tracking information is sent automatically via email', '["order_status"]', 40),
+  ('rush_orders', 'shipping', 'Rush order options are available for expedited shipping', '["order_status"]', 40),
+  
+  -- Quotes
+  ('wholesale_threshold', 'pricing', 'Wholesale pricing available for orders over $1,000', '["quote_request"]', 40),
+  ('volume_discounts', 'pricing', 'Volume discounts: 5% (5+ drums), 10% (10+ drums), 15% (20+ drums)', '["quote_request"]', 40),
+  ('quote_validity', 'pricing', 'Quotes are valid for 30 days', '["quote_request"]', 40),
+  ('price_matching', 'pricing', 'We can match competitor pricing with verification', '["quote_request"]', 40),
+  ('quote_turnaround', 'pricing', 'Quick quote turnaround (usually within 2 hours)', '["quote_request"]', 40),
+  
+  -- Product inquiries
+  ('catalog_size', 'product', 'We stock over 500 chemical products', '["product_inquiry"]', 40),
+  ('custom_packaging', 'product', 'Custom packaging available (drums, totes, pails, bottles)', '["product_inquiry"]', 40),
+  ('coa_sds_included', 'product', 'All products come with COA and SDS', '["product_inquiry"]', 40),
+  ('sourcing', 'product', 'We can source hard-to-find chemicals', '["product_inquiry"]', 40),
+  ('minimum_order', 'product', 'Minimum order is typically 1 gallon for most products', '["product_inquiry"]', 40)
+ON CONFLICT (fact_key) DO NOTHING;
@@ -0,0 +1,57 @@
+-- ============================================================================
+-- LLM USAGE AND COST ACCOUNTING
+-- One row per chat or embedding call, tagged with the request that made it
+-- ============================================================================
+
+CREATE TABLE IF NOT EXISTS llm_usage (
+  id SERIAL PRIMARY KEY,
+
+  -- Who called
+  route TEXT NOT NULL, -- /api/agent, /api/search, shopify-sync, ...
+  category TEXT, -- intent being drafted, when known
+  request_id TEXT, -- agent trace_id
+  message_id TEXT, -- email the request was for
+
+  -- What was called
+  provider TEXT NOT NULL,
+  model TEXT NOT NULL,
+  operation TEXT NOT NULL, -- chat, embedding
+
+  prompt_tokens INTEGER DEFAULT 0,
+  completion_tokens INTEGER DEFAULT 0,
+  -- True when the provider did not report usage and tokens were estimated
+  tokens_estimated BOOLEAN DEFAULT false,
+  estimated_cost DECIMAL(12,6) DEFAULT 0, -- USD
+  latency_ms INTEGER,
+
+  created_at TIMESTAMP DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_llm_usage_created ON llm_usage(created_at DESC);
+CREATE INDEX IF NOT EXISTS idx_llm_usage_request ON llm_usage(request_id);
+CREATE INDEX IF NOT EXISTS idx_llm_usage_message ON llm_usage(message_id);
+
+-- ============================================================================
+-- SPEND BUDGETS
+-- Alert when spend in a period goes over the limit
+-- ============================================================================
+
+CREATE TABLE IF NOT EXISTS llm_budgets (
+  id SERIAL PRIMARY KEY,
+  name TEXT UNIQUE NOT NULL,
+
+  -- What the budget covers; scope_value is ignored for 'total'
+  scope TEXT NOT NULL DEFAULT 'total', -- total, route, category, model
+  scope_value TEXT,
+  period TEXT NOT NULL DEFAULT 'day', -- day, month
+  limit_usd DECIMAL(10,2) NOT NULL,
+
+  is_active BOOLEAN DEFAULT true,
+  created_at TIMESTAMP DEFAULT NOW(),
+  updated_at TIMESTAMP DEFAULT NOW()
+);
+
+INSERT INTO llm_budgets (name, scope, period, limit_usd) VALUES
+  ('daily-total', 'total', 'day', 25.00),
+  ('monthly-total', 'total', 'month', 500.00)
+ON CONFLICT (name) DO NOTHING;
@@ -0,0 +1,55 @@
+-- ============================================================================
+-- PRODUCT DOCUMENTS
+-- SDS, certificates of analysis and tech data sheets the agent can offer
+-- and attach to replies. COAs are per lot; SDS and TDS apply to the product.
+-- Requires create-product-schema.sql.
+-- ============================================================================
+
+CREATE TABLE IF NOT EXISTS product_documents (
+  id SERIAL PRIMARY KEY,
+  product_id BIGINT NOT NULL REFERENCES alliance_products(id) ON DELETE CASCADE,
+  -- Set when the document only covers one variant (e.g. a COA for a drum lot)
+  variant_id BIGINT REFERENCES alliance_product_variants(id) ON DELETE CASCADE,
+
+  doc_type VARCHAR(20) NOT NULL CHECK (doc_type IN ('sds', 'coa', 'tds')),
+  lot_number VARCHAR(100), -- COAs only
+  title TEXT NOT NULL,
+  url TEXT NOT NULL,
+  file_name TEXT,
+  mime_type VARCHAR(100) DEFAULT 'application/pdf',
+  revision VARCHAR(50),
+
+  issued_at DATE,
+  expires_at DATE, -- COA retest date; expired documents are not offered
+
+  is_active BOOLEAN DEFAULT true,
+  created_at TIMESTAMP DEFAULT NOW(),
+  updated_at TIMESTAMP DEFAULT NOW(),
+
+  UNIQUE (product_id, url)
+);
+
+CREATE INDEX IF NOT EXISTS idx_product_documents_product ON product_documents(product_id, doc_type) WHERE is_active = true;
+CREATE INDEX IF NOT EXISTS idx_product_documents_lot ON product_documents(LOWER(lot_number)) WHERE lot_number IS NOT NULL;
+
+CREATE TRIGGER update_product_documents_updated_at
+  BEFORE UPDATE ON product_documents
+  FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
+
+COMMENT ON COLUMN product_documents.lot_number IS 'Manufacturing lot a COA certifies; customers quote it from the container label';
+
+-- Carry over the SDS links already stored on products
+INSERT INTO product_documents (product_id, doc_type, title, url)
+SELECT id, 'sds', title || ' - Safety Data Sheet', sds_url
+FROM alliance_products
+WHERE sds_url IS NOT NULL AND sds_url <> ''
+ON CONFLICT (product_id, url) DO NOTHING;
+
+-- ============================================================================
+-- DRAFT ATTACHMENTS
+-- ============================================================================
+
+ALTER TABLE email_response_drafts
+ADD COLUMN IF NOT EXISTS attachments JSONB DEFAULT '[]';
+
+COMMENT ON COLUMN email_response_drafts.attachments IS 'Documents to attach when the draft is sent: [{doc_type, title, url, lot_number}]';
@@ -0,0 +1,35 @@
+-- ============================================================================
+-- PRODUCT SPEC CHUNKS
+-- Product specs, descriptions and body HTML split into embedded chunks so
+-- technical questions ("flash point of your d-limonene") can be answered
+-- from the catalog with the source of each value.
+-- Requires enable-pgvector.sql and create-product-schema.sql.
+-- ============================================================================
+
+CREATE TABLE IF NOT EXISTS product_spec_chunks (
+  id BIGSERIAL PRIMARY KEY,
+  product_id BIGINT NOT NULL REFERENCES alliance_products(id) ON DELETE CASCADE,
+  chunk_index INTEGER NOT NULL,
+
+  source VARCHAR(20) NOT NULL CHECK (source IN ('specs', 'description', 'body_html')),
+  spec_key TEXT, -- Key in alliance_products.specs, for chunks from specs
+  content TEXT NOT NULL,
+  content_hash VARCHAR(64) NOT NULL, -- Unchanged chunks are not re-embedded
+
+  embedding vector(1536),
+
+  created_at TIMESTAMP DEFAULT NOW(),
+  updated_at TIMESTAMP DEFAULT NOW(),
+
+  UNIQUE (product_id, chunk_index)
+);
+
+CREATE INDEX IF NOT EXISTS idx_product_spec_chunks_product ON product_spec_chunks(product_id);
+CREATE INDEX IF NOT EXISTS idx_product_spec_chunks_embedding ON product_spec_chunks
+  USING hnsw (embedding vector_cosine_ops);
+
+CREATE TRIGGER update_product_spec_chunks_updated_at
+  BEFORE UPDATE ON product_spec_chunks
+  FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
+
+COMMENT ON COLUMN product_spec_chunks.source IS 'Where the chunk came from: a specs entry, the description or the body HTML';
@@ -0,0 +1,66 @@
+-- ============================================================================
+-- SUPPORT CASES
+-- Complaints and angry-customer emails open a case, so the follow-up we
+-- promise has an owner and a due time. Cases link the email, order and
+-- customer; notes keep the history, including status changes.
+-- ============================================================================
+
+CREATE SEQUENCE IF NOT EXISTS support_case_number_seq;
+
+CREATE TABLE IF NOT EXISTS support_cases (
+  id SERIAL PRIMARY KEY,
+  case_number TEXT UNIQUE NOT NULL DEFAULT 'CASE-' || LPAD(nextval('support_case_number_seq')::text, 6, '0'),
+
+  -- Email that opened the case, and its thread
+  message_id TEXT UNIQUE NOT NULL,
+  conversation_id TEXT,
+  subject TEXT,
+  classification VARCHAR(50) NOT NULL,
+
+  customer_email TEXT NOT NULL,
+  customer_name TEXT,
+  order_number TEXT,
+
+  severity VARCHAR(20) NOT NULL DEFAULT 'medium' CHECK (severity IN ('low', 'medium', 'high', 'critical')),
+  status VARCHAR(30) NOT NULL DEFAULT 'open'
+    CHECK (status IN ('open', 'in_progress', 'waiting_on_customer', 'resolved', 'closed')),
+  owner TEXT,
+
+  sla_due_at TIMESTAMPTZ NOT NULL,
+  first_response_at TIMESTAMPTZ,
+  resolved_at TIMESTAMPTZ,
+
+  created_at TIMESTAMPTZ DEFAULT NOW(),
+  updated_at TIMESTAMPTZ DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_support_cases_open ON support_cases(sla_due_at) WHERE status NOT IN ('resolved', 'closed');
+CREATE INDEX IF NOT EXISTS idx_support_cases_customer ON support_cases(LOWER(customer_email));
+CREATE INDEX IF NOT EXISTS idx_support_cases_conversation ON support_cases(conversation_id) WHERE conversation_id IS NOT NULL;
+
+CREATE TRIGGER update_support_cases_updated_at
+  BEFORE UPDATE ON support_cases
+  FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
+
+COMMENT ON COLUMN support_cases.sla_due_at IS 'When the customer was promised a follow-up, in business hours by severity';
+
+CREATE TABLE IF NOT EXISTS support_case_notes (
+  id SERIAL PRIMARY KEY,
+  case_id INTEGER NOT NULL REFERENCES support_cases(id) ON DELETE CASCADE,
+  author TEXT NOT NULL DEFAULT 'system',
+  note TEXT NOT NULL,
+  -- 'note' for people's notes, 'status_change' / 'assignment' / 'opened' for case events
+  note_type VARCHAR(30) NOT NULL DEFAULT 'note',
+  created_at TIMESTAMPTZ DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_support_case_notes_case ON support_case_notes(case_id, created_at);
+
+-- ============================================================================
+-- DRAFT CASE NUMBERS
+-- ============================================================================
+
+ALTER TABLE email_response_drafts
+ADD COLUMN IF NOT EXISTS case_number TEXT;
+
+COMMENT ON COLUMN email_response_drafts.case_number IS 'Support case opened for the email, referenced in the draft';
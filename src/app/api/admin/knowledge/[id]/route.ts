@@ -0,0 +1,175 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { Client } from 'pg';
+
+/**
+ * GET /api/admin/knowledge/:id
+ * Fetch a specific knowledge base fact
+ */
+export async function GET(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  const client = new Client({
+    connectionString: process.env.DATABASE_URL,
+  });
+
+  try {
+    await client.connect();
+    
+    const result = await client.query(
+      `SELECT * FROM knowledge_facts WHERE id = $1`,
+      [params.id]
+    );
+    
+    if (result.rows.length === 0) {
+      return NextResponse.json(
+        { error: 'Fact not found' },
+        { status: 404 }
+      );
+    }
+    
+    return NextResponse.json(result.rows[0]);
+    
+  } catch (error) {
+    console.error('Error fetching fact:', error);
+    return NextResponse.json(
+      { error: 'Failed to fetch fact' },
+      { status: 500 }
+    );
+  } finally {
+    await client.end();
+  }
+}
+
+/**
+ * PUT /api/admin/knowledge/:id
+ * Update a knowledge base fact
+ */
+export async function PUT(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  const client = new Client({
+    connectionString: process.env.DATABASE_URL,
+  });
+
+  try {
+    await client.connect();
+    
+    const body = await request.json();
+    const {
+      fact_key,
+      category,
+      content,
+      intents = [],
+      priority = 0,
+      is_active = true,
+      effective_from,
+      effective_until,
+      updated_by,
+    } = body;
+    
+    if (!fact_key || !category || !content) {
+      return NextResponse.json(
+        { error: 'fact_key, category and content are required' },
+        { status: 400 }
+      );
+    }
+    
+    const result = await client.query(
+      `UPDATE knowledge_facts SET
+        fact_key = $1,
+        category = $2,
+        content = $3,
+        intents = $4,
+        priority = $5,
+        is_active = $6,
+        effective_from = COALESCE($7, effective_from),
+        effective_until = $8,
+        updated_by = $9,
+        updated_at = NOW()
+      WHERE id = $10
+      RETURNING id`,
+      [
+        fact_key,
+        category,
+        content,
+        JSON.stringify(intents),
+        priority,
+        is_active,
+        effective_from || null,
+        effective_until || null,
+        updated_by || null,
+        params.id,
+      ]
+    );
+    
+    if (result.rows.length === 0) {
+      return NextResponse.json(
+        { error: 'Fact not found' },
+        { status: 404 }
+      );
+    }
+    
+    return NextResponse.json({
+      success: true,
+      id: result.rows[0].id,
+    });
+    
+  } catch (error) {
+    console.error('Error updating fact:', error);
+    return NextResponse.json(
+      { error: 'Failed to update fact' },
+      { status: 500 }
+    );
+  } finally {
+    await client.end();
+  }
+}
+
+/**
+ * DELETE /api/admin/knowledge/:id
+ * Delete a knowledge base fact
+ */
+export async function DELETE(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  const client = new Client({
+    connectionString: process.env.DATABASE_URL,
+  });
+
+  try {
+    await client.connect();
+    
+    // Soft delete by setting is_active to false
+    const result = await client.query(
+      `UPDATE knowledge_facts 
+       SET is_active = false, updated_at = NOW() 
+       WHERE id = $1
+       RETURNING id`,
+      [params.id]
+    );
+    
+    if (result.rows.length === 0) {
+      return NextResponse.json(
+        { error: 'Fact not found' },
+        { status: 404 }
+      );
+    }
+    
+    return NextResponse.json({
+      success: true,
+      message: 'Fact deactivated',
+    });
+    
+  } catch (error) {
+    console.error('Error deleting fact:', error);
+    return NextResponse.json(
+      { error: 'Failed to delete fact' },
+      { status: 500 }
+    );
+  } finally {
+    await client.end();
+  }
+}
@@ -0,0 +1,134 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { Client } from 'pg';
+
+/**
+ * GET /api/admin/knowledge
+ * Fetch knowledge base facts
+ */
+export async function GET(request: NextRequest) {
+  const client = new Client({
+    connectionString: process.env.DATABASE_URL,
+  });
+
+  try {
+    await client.connect();
+    
+    const category = request.nextUrl.searchParams.get('category');
+    const intent = request.nextUrl.searchParams.get('intent');
+    const currentOnly = request.nextUrl.searchParams.get('current') === 'true';
+    
+    let query = `
+      SELECT 
+        id, fact_key, category, content, intents, priority, is_active,
+        effective_from, effective_until, created_at, updated_at, updated_by
+      FROM knowledge_facts
+      WHERE 1=1
+    `;
+    
+    const params: any[] = [];
+    let paramCount = 1;
+    
+    if (category) {
+      query += ` AND category = $${paramCount}`;
+      params.push(category);
+      paramCount++;
+    }
+    
+    if (intent) {
+      query += ` AND (intents = '[]'::jsonb OR intents ? $${paramCount})`;
+      params.push(intent);
+      paramCount++;
+    }
+    
+    if (currentOnly) {
+      query += ` AND is_active = true
+        AND (effective_from IS NULL OR effective_from <= NOW())
+        AND (effective_until IS NULL OR effective_until > NOW())`;
+    }
+    
+    query += ` ORDER BY category, priority DESC, fact_key`;
+    
+    const result = await client.query(query, params);
+    
+    return NextResponse.json({
+      facts: result.rows,
+      total: result.rows.length,
+    });
+    
+  } catch (error) {
+    console.error('Error fetching facts:', error);
+    return NextResponse.json(
+      { error: 'Failed to fetch facts' },
+      { status: 500 }
+    );
+  } finally {
+    await client.end();
+  }
+}
+
+/**
+ * POST /api/admin/knowledge
+ * Create a knowledge base fact
+ */
+export async function POST(request: NextRequest) {
+  const client = new Client({
+    connectionString: process.env.DATABASE_URL,
+  });
+
+  try {
+    await client.connect();
+    
+    const body = await request.json();
+    const {
+      fact_key,
+      category,
+      content,
+      intents = [],
+      priority = 0,
+      is_active = true,
+      effective_from,
+      effective_until,
+      updated_by,
+    } = body;
+    
+    if (!fact_key || !category || !content) {
+      return NextResponse.json(
+        { error: 'fact_key, category and content are required' },
+        { status: 400 }
+      );
+    }
+    
+    const result = await client.query(
+      `INSERT INTO knowledge_facts (
+        fact_key, category, content, intents, priority, is_active,
+        effective_from, effective_until, updated_by
+      ) VALUES ($1, $2, $3, $4, $5, $6, COALESCE($7, NOW()), $8, $9)
+      RETURNING id`,
+      [
+        fact_key,
+        category,
+        content,
+        JSON.stringify(intents),
+        priority,
+        is_active,
+        effective_from || null,
+        effective_until || null,
+        updated_by || null,
+      ]
+    );
+    
+    return NextResponse.json({
+      success: true,
+      id: result.rows[0].id,
+    });
+    
+  } catch (error) {
+    console.error('Error creating fact:', error);
+    return NextResponse.json(
+      { error: 'Failed to create fact' },
+      { status: 500 }
+    );
+  } finally {
+    await client.end();
+  }
+}
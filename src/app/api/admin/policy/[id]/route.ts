@@ -0,0 +1,185 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { Client } from 'pg';
+import { invalidatePolicyRules, validatePolicyRule } from '@/lib/agent/policy';
+
+/**
+ * GET /api/admin/policy/:id
+ * Fetch a specific content policy rule
+ */
+export async function GET(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  const client = new Client({
+    connectionString: process.env.DATABASE_URL,
+  });
+
+  try {
+    await client.connect();
+
+    const result = await client.query(
+      `SELECT * FROM content_policy_rules WHERE id = $1`,
+      [params.id]
+    );
+
+    if (result.rows.length === 0) {
+      return NextResponse.json(
+        { error: 'Rule not found' },
+        { status: 404 }
+      );
+    }
+
+    return NextResponse.json(result.rows[0]);
+
+  } catch (error) {
+    console.error('Error fetching policy rule:', error);
+    return NextResponse.json(
+      { error: 'Failed to fetch policy rule' },
+      { status: 500 }
+    );
+  } finally {
+    await client.end();
+  }
+}
+
+/**
+ * PUT /api/admin/policy/:id
+ * Update a content policy rule
+ */
+export async function PUT(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  const client = new Client({
+    connectionString: process.env.DATABASE_URL,
+  });
+
+  try {
+    await client.connect();
+
+    const body = await request.json();
+    const {
+      rule_key,
+      description,
+      rule_type,
+      config = {},
+      severity = 'block',
+      intents = [],
+      is_active = true,
+      updated_by,
+    } = body;
+
+    if (!rule_key || !description || !rule_type) {
+      return NextResponse.json(
+        { error: 'rule_key, description and rule_type are required' },
+        { status: 400 }
+      );
+    }
+
+    const invalid = validatePolicyRule(rule_type, config);
+    if (invalid) {
+      return NextResponse.json(
+        { error: invalid },
+        { status: 400 }
+      );
+    }
+
+    const result = await client.query(
+      `UPDATE content_policy_rules SET
+        rule_key = $1,
+        description = $2,
+        rule_type = $3,
+        config = $4,
+        severity = $5,
+        intents = $6,
+        is_active = $7,
+        updated_by = $8,
+        updated_at = NOW()
+      WHERE id = $9
+      RETURNING id`,
+      [
+        rule_key,
+        description,
+        rule_type,
+        JSON.stringify(config),
+        severity === 'warn' ? 'warn' : 'block',
+        JSON.stringify(intents),
+        is_active,
+        updated_by || null,
+        params.id,
+      ]
+    );
+
+    if (result.rows.length === 0) {
+      return NextResponse.json(
+        { error: 'Rule not found' },
+        { status: 404 }
+      );
+    }
+
+    await invalidatePolicyRules();
+
+    return NextResponse.json({
+      success: true,
+      id: result.rows[0].id,
+    });
+
+  } catch (error) {
+    console.error('Error updating policy rule:', error);
+    return NextResponse.json(
+      { error: 'Failed to update policy rule' },
+      { status: 500 }
+    );
+  } finally {
+    await client.end();
+  }
+}
+
+/**
+ * DELETE /api/admin/policy/:id
+ * Deactivate a content policy rule
+ */
+export async function DELETE(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  const client = new Client({
+    connectionString: process.env.DATABASE_URL,
+  });
+
+  try {
+    await client.connect();
+
+    // Soft delete by setting is_active to false
+    const result = await client.query(
+      `UPDATE content_policy_rules
+       SET is_active = false, updated_at = NOW()
+       WHERE id = $1
+       RETURNING id`,
+      [params.id]
+    );
+
+    if (result.rows.length === 0) {
+      return NextResponse.json(
+        { error: 'Rule not found' },
+        { status: 404 }
+      );
+    }
+
+    await invalidatePolicyRules();
+
+    return NextResponse.json({
+      success: true,
+      message: 'Rule deactivated',
+    });
+
+  } catch (error) {
+    console.error('Error deleting policy rule:', error);
+    return NextResponse.json(
+      { error: 'Failed to delete policy rule' },
+      { status: 500 }
+    );
+  } finally {
+    await client.end();
+  }
+}
@@ -0,0 +1,116 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { Client } from 'pg';
+import { invalidatePolicyRules, validatePolicyRule } from '@/lib/agent/policy';
+
+/**
+ * GET /api/admin/policy
+ * Fetch content policy rules
+ */
+export async function GET(request: NextRequest) {
+  const client = new Client({
+    connectionString: process.env.DATABASE_URL,
+  });
+
+  try {
+    await client.connect();
+
+    const activeOnly = request.nextUrl.searchParams.get('active') === 'true';
+
+    const result = await client.query(
+      `SELECT
+        id, rule_key, description, rule_type, config, severity, intents,
+        is_active, created_at, updated_at, updated_by
+      FROM content_policy_rules
+      ${activeOnly ? 'WHERE is_active = true' : ''}
+      ORDER BY rule_key`
+    );
+
+    return NextResponse.json({
+      rules: result.rows,
+      total: result.rows.length,
+    });
+
+  } catch (error) {
+    console.error('Error fetching policy rules:', error);
+    return NextResponse.json(
+      { error: 'Failed to fetch policy rules' },
+      { status: 500 }
+    );
+  } finally {
+    await client.end();
+  }
+}
+
+/**
+ * POST /api/admin/policy
+ * Create a content policy rule
+ */
+export async function POST(request: NextRequest) {
+  const client = new Client({
+    connectionString: process.env.DATABASE_URL,
+  });
+
+  try {
+    await client.connect();
+
+    const body = await request.json();
+    const {
+      rule_key,
+      description,
+      rule_type,
+      config = {},
+      severity = 'block',
+      intents = [],
+      is_active = true,
+      updated_by,
+    } = body;
+
+    if (!rule_key || !description || !rule_type) {
+      return NextResponse.json(
+        { error: 'rule_key, description and rule_type are required' },
+        { status: 400 }
+      );
+    }
+
+    const invalid = validatePolicyRule(rule_type, config);
+    if (invalid) {
+      return NextResponse.json(
+        { error: invalid },
+        { status: 400 }
+      );
+    }
+
+    const result = await client.query(
+      `INSERT INTO content_policy_rules (
+        rule_key, description, rule_type, config, severity, intents, is_active, updated_by
+      ) VALUES ($1, $2, $3, $4, $5, $6, $7, $8)
+      RETURNING id`,
+      [
+        rule_key,
+        description,
+        rule_type,
+        JSON.stringify(config),
+        severity === 'warn' ? 'warn' : 'block',
+        JSON.stringify(intents),
+        is_active,
+        updated_by || null,
+      ]
+    );
+
+    await invalidatePolicyRules();
+
+    return NextResponse.json({
+      success: true,
+      id: result.rows[0].id,
+    });
+
+  } catch (error) {
+    console.error('Error creating policy rule:', error);
+    return NextResponse.json(
+      { error: 'Failed to create policy rule' },
+      { status: 500 }
+    );
+  } finally {
+    await client.end();
+  }
+}
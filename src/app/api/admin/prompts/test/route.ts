@@ -1,30 +1,5 @@
 import { NextRequest, NextResponse } from 'next/server';
-
-/**
- * Simple template renderer using regex replacement
- * Supports {{variable}} and {{#if condition}} blocks
- */
-function renderTemplate(template: string, variables: Record<string, any>): string {
-  let rendered = template;
-  
-  // Handle conditional blocks {{#if variable}}...{{/if}}
-  rendered = rendered.replace(
-    /\{\{#if\s+(\w+)\}\}([\s\S]*?)\{\{\/if\}\}/g,
-    (match, varName, content) => {
-      return variables[varName] ? content : '';
-    }
-  );
-  
-  // Handle simple variable replacement {{variable}}
-  rendered = rendered.replace(
-    /\{\{(\w+)\}\}/g,
-    (match, varName) => {
-      return variables[varName] !== undefined ? String(variables[varName]) : match;
-    }
-  );
-  
-  return rendered;
-}
+import { extractTemplateVariables, renderTemplate } from '@/lib/templates';
 
 /**
  * POST /api/admin/prompts/test
@@ -43,16 +18,10 @@ export async function POST(request: NextRequest) {
     }
     
     // Extract required variables from template
-    const variablePattern = /\{\{(?:#if\s+)?(\w+)\}\}/g;
-    const foundVariables = new Set<string>();
-    let match;
-    
-    while ((match = variablePattern.exec(template)) !== null) {
-      foundVariables.add(match[1]);
-    }
+    const foundVariables = extractTemplateVariables(template);
     
     // Check for missing required variables
-    const missingVars = Array.from(foundVariables).filter(
+    const missingVars = foundVariables.filter(
       v => !(v in variables)
     );
     
@@ -61,7 +30,7 @@ export async function POST(request: NextRequest) {
     
     return NextResponse.json({
       rendered,
-      variables_used: Array.from(foundVariables),
+      variables_used: foundVariables,
       missing_variables: missingVars,
       warning: missingVars.length > 0 
         ? `Missing variables: ${missingVars.join(', ')}`
@@ -0,0 +1,36 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { runWithUsageTags } from '@/lib/llm';
+import { indexProductSpecs } from '@/lib/product-specs';
+
+/**
+ * POST /api/admin/specs/reindex
+ * Rebuild the spec Q&A chunks for the given product_ids, or every
+ * active product. Only new or changed chunks are re-embedded.
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const body = await request.json().catch(() => ({}));
+    const productIds: number[] | undefined = body.product_ids;
+
+    if (productIds !== undefined && (!Array.isArray(productIds) || productIds.some(id => typeof id !== 'number'))) {
+      return NextResponse.json(
+        { error: 'product_ids must be an array of product IDs' },
+        { status: 400 }
+      );
+    }
+
+    const result = await runWithUsageTags({ route: '/api/admin/specs/reindex' }, () => indexProductSpecs(productIds));
+
+    return NextResponse.json({
+      success: true,
+      ...result,
+    });
+
+  } catch (error) {
+    console.error('Error reindexing product specs:', error);
+    return NextResponse.json(
+      { error: 'Failed to reindex product specs' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,98 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { Client } from 'pg';
+import { getBudgetStatus } from '@/lib/llm';
+
+const SCOPES = ['total', 'route', 'category', 'model'];
+const PERIODS = ['day', 'month'];
+
+/**
+ * GET /api/admin/usage/budgets
+ * Active budgets with spend in the current period
+ */
+export async function GET() {
+  try {
+    const budgets = await getBudgetStatus();
+
+    return NextResponse.json({
+      budgets,
+      total: budgets.length,
+    });
+
+  } catch (error) {
+    console.error('Error fetching budgets:', error);
+    return NextResponse.json(
+      { error: 'Failed to fetch budgets' },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * POST /api/admin/usage/budgets
+ * Create or update a budget by name
+ */
+export async function POST(request: NextRequest) {
+  const client = new Client({
+    connectionString: process.env.DATABASE_URL,
+  });
+
+  try {
+    const body = await request.json();
+    const {
+      name,
+      scope = 'total',
+      scope_value = null,
+      period = 'day',
+      limit_usd,
+      is_active = true,
+    } = body;
+
+    if (!name || limit_usd === undefined) {
+      return NextResponse.json(
+        { error: 'name and limit_usd are required' },
+        { status: 400 }
+      );
+    }
+
+    if (SCOPES.indexOf(scope) === -1 || PERIODS.indexOf(period) === -1) {
+      return NextResponse.json(
+        { error: `scope must be one of ${SCOPES.join(', ')}; period one of ${PERIODS.join(', ')}` },
+        { status: 400 }
+      );
+    }
+
+    if (scope !== 'total' && !scope_value) {
+      return NextResponse.json(
+        { error: `scope_value is required for ${scope} budgets` },
+        { status: 400 }
+      );
+    }
+
+    await client.connect();
+
+    const result = await client.query(
+      `INSERT INTO llm_budgets (name, scope, scope_value, period, limit_usd, is_active)
+       VALUES ($1, $2, $3, $4, $5, $6)
+       ON CONFLICT (name) DO UPDATE SET
+         scope = EXCLUDED.scope,
+         scope_value = EXCLUDED.scope_value,
+         period = EXCLUDED.period,
+         limit_usd = EXCLUDED.limit_usd,
+         is_active = EXCLUDED.is_active,
+         updated_at = NOW()
+       RETURNING *`,
+      [name, scope, scope === 'total' ? null : scope_value, period, limit_usd, is_active]
+    );
+
+    return NextResponse.json(result.rows[0]);
+
+  } catch (error) {
+    console.error('Error saving budget:', error);
+    return NextResponse.json(
+      { error: 'Failed to save budget' },
+      { status: 500 }
+    );
+  } finally {
+    await client.end();
+  }
+}
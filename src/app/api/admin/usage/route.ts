@@ -0,0 +1,117 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { Client } from 'pg';
+import { getBudgetStatus } from '@/lib/llm';
+
+const GROUPINGS: Record<string, string> = {
+  by_day: `to_char(date_trunc('day', created_at), 'YYYY-MM-DD')`,
+  by_route: 'route',
+  by_category: `COALESCE(category, 'uncategorized')`,
+  by_model: 'model',
+};
+
+/**
+ * GET /api/admin/usage
+ * LLM spend by day, route, category and model, with budget status.
+ * Filters: days (default 30), route, category, model, message_id
+ */
+export async function GET(request: NextRequest) {
+  const client = new Client({
+    connectionString: process.env.DATABASE_URL,
+  });
+
+  try {
+    await client.connect();
+
+    const searchParams = request.nextUrl.searchParams;
+    const days = parseInt(searchParams.get('days') || '30');
+
+    let where = `WHERE created_at > NOW() - ($1 || ' days')::interval`;
+    const params: any[] = [days];
+    let paramCount = 2;
+
+    ['route', 'category', 'model', 'message_id'].forEach(field => {
+      const value = searchParams.get(field);
+      if (value) {
+        where += ` AND ${field} = $${paramCount}`;
+        params.push(value);
+        paramCount++;
+      }
+    });
+
+    const totals = await client.query(
+      `SELECT
+        COUNT(*) as calls,
+        COALESCE(SUM(prompt_tokens), 0) as prompt_tokens,
+        COALESCE(SUM(completion_tokens), 0) as completion_tokens,
+        COALESCE(SUM(estimated_cost), 0) as cost_usd,
+        COALESCE(SUM(estimated_cost) FILTER (WHERE message_id IS NOT NULL), 0) as email_cost_usd,
+        COUNT(DISTINCT message_id) as emails,
+        COUNT(DISTINCT request_id) as requests
+      FROM llm_usage
+      ${where}`,
+      params
+    );
+
+    const breakdowns: Record<string, any[]> = {};
+    for (const name of Object.keys(GROUPINGS)) {
+      const result = await client.query(
+        `SELECT
+          ${GROUPINGS[name]} as key,
+          COUNT(*) as calls,
+          SUM(prompt_tokens) as prompt_tokens,
+          SUM(completion_tokens) as completion_tokens,
+          SUM(estimated_cost) as cost_usd,
+          AVG(latency_ms) as avg_latency_ms
+        FROM llm_usage
+        ${where}
+        GROUP BY 1
+        ORDER BY ${name === 'by_day' ? '1 DESC' : 'cost_usd DESC'}`,
+        params
+      );
+
+      breakdowns[name] = result.rows.map(row => ({
+        key: row.key,
+        calls: parseInt(row.calls),
+        prompt_tokens: parseInt(row.prompt_tokens),
+        completion_tokens: parseInt(row.completion_tokens),
+        cost_usd: Math.round(parseFloat(row.cost_usd) * 10000) / 10000,
+        avg_latency_ms: Math.round(parseFloat(row.avg_latency_ms)),
+      }));
+    }
+
+    const row = totals.rows[0];
+    const cost = parseFloat(row.cost_usd);
+    const emails = parseInt(row.emails);
+    const emailCost = parseFloat(row.email_cost_usd);
+
+    const budgets = await getBudgetStatus();
+
+    return NextResponse.json({
+      period_days: days,
+      totals: {
+        calls: parseInt(row.calls),
+        prompt_tokens: parseInt(row.prompt_tokens),
+        completion_tokens: parseInt(row.completion_tokens),
+        cost_usd: Math.round(cost * 10000) / 10000,
+        requests: parseInt(row.requests),
+        emails,
+        avg_cost_per_email: emails > 0 ? Math.round((emailCost / emails) * 10000) / 10000 : null,
+      },
+      ...breakdowns,
+      budgets,
+      alerts: budgets.filter(budget => budget.exceeded).map(budget => budget.name),
+    });
+
+  } catch (error) {
+    console.error('Usage report error:', error);
+    return NextResponse.json(
+      {
+        error: 'Failed to fetch usage',
+        details: error instanceof Error ? error.message : 'Unknown error',
+      },
+      { status: 500 }
+    );
+  } finally {
+    await client.end();
+  }
+}
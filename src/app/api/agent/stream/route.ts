@@ -0,0 +1,104 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { AgentEvent, AgentRequest, runAgent } from '@/lib/agent';
+import { runWithUsageTags } from '@/lib/llm';
+
+export const dynamic = 'force-dynamic';
+
+/**
+ * Format a Server-Sent Events message
+ */
+function formatEvent(event: string, data: any): string {
+  return `event: ${event}\ndata: ${JSON.stringify(data)}\n\n`;
+}
+
+/**
+ * POST /api/agent/stream
+ * Streaming variant of /api/agent over Server-Sent Events.
+ * Emits tool_start/tool_end for each tool call, token events while
+ * the draft is generated, then a done event with the full response
+ * (as /api/agent returns it - policy, auto_approvable, attachments...).
+ * If the client disconnects, the run still completes (its draft and
+ * trace are recorded) but no further events are sent.
+ */
+export async function POST(request: NextRequest) {
+  let body: AgentRequest;
+
+  try {
+    body = await request.json();
+  } catch (error) {
+    return NextResponse.json(
+      { error: 'Invalid JSON body' },
+      { status: 400 }
+    );
+  }
+
+  if (!body.message) {
+    return NextResponse.json(
+      { error: 'Message is required' },
+      { status: 400 }
+    );
+  }
+
+  const encoder = new TextEncoder();
+
+  // Set once the client goes away - the run finishes, but nothing more is sent
+  let closed = false;
+
+  const stream = new ReadableStream({
+    async start(controller) {
+      const close = () => {
+        if (closed) return;
+        closed = true;
+        try {
+          controller.close();
+        } catch (error) {
+          // Already closed or cancelled
+        }
+      };
+
+      const send = (event: string, data: any) => {
+        if (closed) return;
+        try {
+          controller.enqueue(encoder.encode(formatEvent(event, data)));
+        } catch (error) {
+          closed = true;
+        }
+      };
+
+      request.signal.addEventListener('abort', close);
+      if (request.signal.aborted) close();
+
+      try {
+        const finalResponse = await runWithUsageTags({ route: '/api/agent/stream' }, () =>
+          runAgent(body, (event: AgentEvent) => {
+            const { type, ...data } = event;
+            send(type, data);
+          })
+        );
+
+        // Same body as the JSON route returns
+        send('done', finalResponse);
+      } catch (error) {
+        console.error('Agent stream error:', error);
+        send('error', {
+          error: 'Failed to process request',
+          details: error instanceof Error ? error.message : 'Unknown error',
+        });
+      } finally {
+        request.signal.removeEventListener('abort', close);
+        close();
+      }
+    },
+    cancel() {
+      closed = true;
+    },
+  });
+
+  return new Response(stream, {
+    headers: {
+      'Content-Type': 'text/event-stream',
+      'Cache-Control': 'no-cache, no-transform',
+      'Connection': 'keep-alive',
+    },
+  });
+}
@@ -0,0 +1,34 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getTrace } from '@/lib/agent/trace';
+
+/**
+ * GET /api/agent/traces/:id
+ * Fetch the full execution trace of an agent run
+ */
+export async function GET(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    const trace = await getTrace(params.id);
+
+    if (!trace) {
+      return NextResponse.json(
+        { error: 'Trace not found' },
+        { status: 404 }
+      );
+    }
+
+    return NextResponse.json(trace);
+
+  } catch (error) {
+    console.error('Error fetching trace:', error);
+    return NextResponse.json(
+      {
+        error: 'Failed to fetch trace',
+        details: error instanceof Error ? error.message : 'Unknown error',
+      },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,36 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { listTraces } from '@/lib/agent/trace';
+
+const DEFAULT_TRACE_LIMIT = 20;
+const MAX_TRACE_LIMIT = 100;
+
+/**
+ * GET /api/agent/traces
+ * List recent agent execution traces, optionally filtered by email_id
+ */
+export async function GET(request: NextRequest) {
+  try {
+    const searchParams = request.nextUrl.searchParams;
+    const emailId = searchParams.get('email_id') || undefined;
+    // A missing, invalid or non-positive limit gets the default
+    const requested = parseInt(searchParams.get('limit') || '');
+    const limit = requested > 0 ? Math.min(requested, MAX_TRACE_LIMIT) : DEFAULT_TRACE_LIMIT;
+
+    const traces = await listTraces(emailId, limit);
+
+    return NextResponse.json({
+      traces,
+      total: traces.length,
+    });
+
+  } catch (error) {
+    console.error('Error fetching traces:', error);
+    return NextResponse.json(
+      {
+        error: 'Failed to fetch traces',
+        details: error instanceof Error ? error.message : 'Unknown error',
+      },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,47 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { addCaseNote } from '@/lib/cases';
+
+/**
+ * POST /api/cases/:caseNumber/notes
+ * Add a note to a support case. Body: { note, author? }
+ */
+export async function POST(
+  request: NextRequest,
+  { params }: { params: { caseNumber: string } }
+) {
+  try {
+    const body = await request.json();
+    const { note, author } = body;
+
+    if (!note || typeof note !== 'string' || !note.trim()) {
+      return NextResponse.json(
+        { error: 'note is required' },
+        { status: 400 }
+      );
+    }
+
+    const created = await addCaseNote(params.caseNumber, note.trim(), author);
+
+    if (!created) {
+      return NextResponse.json(
+        { error: 'Case not found' },
+        { status: 404 }
+      );
+    }
+
+    return NextResponse.json({
+      success: true,
+      note: created,
+    });
+
+  } catch (error) {
+    console.error('Error adding case note:', error);
+    return NextResponse.json(
+      {
+        error: 'Failed to add case note',
+        details: error instanceof Error ? error.message : 'Unknown error',
+      },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,97 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { CASE_SEVERITIES, CASE_STATUSES, CaseSeverity, CaseStatus, getCase, updateCase } from '@/lib/cases';
+
+/**
+ * GET /api/cases/:caseNumber
+ * Fetch a support case with its notes
+ */
+export async function GET(
+  request: NextRequest,
+  { params }: { params: { caseNumber: string } }
+) {
+  try {
+    const supportCase = await getCase(params.caseNumber);
+
+    if (!supportCase) {
+      return NextResponse.json(
+        { error: 'Case not found' },
+        { status: 404 }
+      );
+    }
+
+    return NextResponse.json(supportCase);
+
+  } catch (error) {
+    console.error('Error fetching case:', error);
+    return NextResponse.json(
+      {
+        error: 'Failed to fetch case',
+        details: error instanceof Error ? error.message : 'Unknown error',
+      },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * PATCH /api/cases/:caseNumber
+ * Update a case's status, owner or severity. Body: { status?, owner?,
+ * severity?, author? }. Each change is added to the case notes.
+ */
+export async function PATCH(
+  request: NextRequest,
+  { params }: { params: { caseNumber: string } }
+) {
+  try {
+    const body = await request.json();
+    const { status, owner, severity, author } = body;
+
+    if (status === undefined && owner === undefined && severity === undefined) {
+      return NextResponse.json(
+        { error: 'Provide status, owner or severity' },
+        { status: 400 }
+      );
+    }
+    if (status !== undefined && CASE_STATUSES.indexOf(status) === -1) {
+      return NextResponse.json(
+        { error: `status must be one of: ${CASE_STATUSES.join(', ')}` },
+        { status: 400 }
+      );
+    }
+    if (severity !== undefined && CASE_SEVERITIES.indexOf(severity) === -1) {
+      return NextResponse.json(
+        { error: `severity must be one of: ${CASE_SEVERITIES.join(', ')}` },
+        { status: 400 }
+      );
+    }
+
+    const supportCase = await updateCase(params.caseNumber, {
+      status: status as CaseStatus | undefined,
+      owner,
+      severity: severity as CaseSeverity | undefined,
+      author,
+    });
+
+    if (!supportCase) {
+      return NextResponse.json(
+        { error: 'Case not found' },
+        { status: 404 }
+      );
+    }
+
+    return NextResponse.json({
+      success: true,
+      case: supportCase,
+    });
+
+  } catch (error) {
+    console.error('Error updating case:', error);
+    return NextResponse.json(
+      {
+        error: 'Failed to update case',
+        details: error instanceof Error ? error.message : 'Unknown error',
+      },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,39 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { CASE_STATUSES, CaseStatus, listCases } from '@/lib/cases';
+
+/**
+ * GET /api/cases
+ * List support cases, soonest due first - open cases unless ?status= is
+ * given. Filter by ?owner=, or ?overdue=true for missed follow-ups.
+ */
+export async function GET(request: NextRequest) {
+  try {
+    const searchParams = request.nextUrl.searchParams;
+    const status = searchParams.get('status') || undefined;
+
+    if (status && CASE_STATUSES.indexOf(status as CaseStatus) === -1) {
+      return NextResponse.json(
+        { error: `status must be one of: ${CASE_STATUSES.join(', ')}` },
+        { status: 400 }
+      );
+    }
+
+    const cases = await listCases({
+      status: status as CaseStatus | undefined,
+      owner: searchParams.get('owner') || undefined,
+      overdue: searchParams.get('overdue') === 'true',
+    });
+
+    return NextResponse.json({ cases });
+
+  } catch (error) {
+    console.error('Error listing cases:', error);
+    return NextResponse.json(
+      {
+        error: 'Failed to list cases',
+        details: error instanceof Error ? error.message : 'Unknown error',
+      },
+      { status: 500 }
+    );
+  }
+}
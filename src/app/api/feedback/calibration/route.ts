@@ -0,0 +1,102 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { Client } from 'pg';
+
+/**
+ * GET /api/feedback/calibration
+ * Compare predicted draft confidence with how often drafts were actually
+ * sent without edits. A calibrated score of 0.8 means ~80% go out unedited.
+ */
+export async function GET(request: NextRequest) {
+  const client = new Client({
+    connectionString: process.env.DATABASE_URL,
+  });
+
+  try {
+    await client.connect();
+
+    const searchParams = request.nextUrl.searchParams;
+    const days = parseInt(searchParams.get('days') || '30');
+    const intent = searchParams.get('intent');
+
+    const params: any[] = [days];
+    let intentFilter = '';
+    if (intent) {
+      intentFilter = ' AND intents ? $2';
+      params.push(intent);
+    }
+
+    // Bucket by predicted confidence in tenths
+    const bucketResult = await client.query(
+      `SELECT
+        LEAST(FLOOR(confidence_score * 10), 9) / 10.0 as bucket_start,
+        COUNT(*) as drafts,
+        AVG(confidence_score) as avg_predicted,
+        AVG(CASE WHEN was_edited THEN 0 ELSE 1 END) as actual_unedited_rate
+      FROM email_response_drafts
+      WHERE final_response IS NOT NULL
+        AND confidence_score IS NOT NULL
+        AND generated_at > NOW() - ($1 || ' days')::interval
+        ${intentFilter}
+      GROUP BY bucket_start
+      ORDER BY bucket_start`,
+      params
+    );
+
+    const summaryResult = await client.query(
+      `SELECT
+        COUNT(*) as drafts,
+        AVG(confidence_score) as avg_predicted,
+        AVG(CASE WHEN was_edited THEN 0 ELSE 1 END) as actual_unedited_rate,
+        AVG(POWER(confidence_score - CASE WHEN was_edited THEN 0 ELSE 1 END, 2)) as brier_score
+      FROM email_response_drafts
+      WHERE final_response IS NOT NULL
+        AND confidence_score IS NOT NULL
+        AND generated_at > NOW() - ($1 || ' days')::interval
+        ${intentFilter}`,
+      params
+    );
+
+    const summary = summaryResult.rows[0];
+    const total = parseInt(summary.drafts);
+
+    const buckets = bucketResult.rows.map(row => {
+      const predicted = parseFloat(row.avg_predicted);
+      const actual = parseFloat(row.actual_unedited_rate);
+      return {
+        range: `${parseFloat(row.bucket_start).toFixed(1)}-${(parseFloat(row.bucket_start) + 0.1).toFixed(1)}`,
+        drafts: parseInt(row.drafts),
+        avg_predicted: Math.round(predicted * 100) / 100,
+        actual_unedited_rate: Math.round(actual * 100) / 100,
+        gap: Math.round((predicted - actual) * 100) / 100,
+      };
+    });
+
+    // Expected calibration error: draft-weighted average gap
+    const ece = total > 0
+      ? buckets.reduce((sum, b) => sum + Math.abs(b.gap) * b.drafts, 0) / total
+      : null;
+
+    return NextResponse.json({
+      period_days: days,
+      intent: intent || 'all',
+      drafts: total,
+      avg_predicted: total > 0 ? Math.round(parseFloat(summary.avg_predicted) * 100) / 100 : null,
+      actual_unedited_rate: total > 0 ? Math.round(parseFloat(summary.actual_unedited_rate) * 100) / 100 : null,
+      brier_score: total > 0 ? Math.round(parseFloat(summary.brier_score) * 1000) / 1000 : null,
+      expected_calibration_error: ece !== null ? Math.round(ece * 1000) / 1000 : null,
+      buckets,
+    });
+
+  } catch (error) {
+    console.error('Calibration report error:', error);
+    return NextResponse.json(
+      {
+        error: 'Failed to build calibration report',
+        details: error instanceof Error ? error.message : 'Unknown error',
+      },
+      { status: 500 }
+    );
+  } finally {
+    await client.end();
+  }
+}
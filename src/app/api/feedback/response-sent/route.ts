@@ -1,5 +1,6 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { Client } from 'pg';
+import { recordSentReply } from '@/lib/agent/session';
 
 interface ResponseFeedback {
   message_id: string;
@@ -142,6 +143,15 @@ export async function POST(request: NextRequest) {
       ]
     );
 
+    // A sent reply is the first response on the email's support case
+    await client.query(
+      `UPDATE support_cases
+       SET first_response_at = COALESCE(first_response_at, NOW()),
+           status = CASE WHEN status = 'open' THEN 'in_progress' ELSE status END
+       WHERE case_number = (SELECT case_number FROM email_response_drafts WHERE message_id = $1)`,
+      [message_id]
+    );
+
     // Track template usage if applicable
     if (tools_used && tools_used.length > 0) {
       await client.query(
@@ -201,6 +211,13 @@ export async function POST(request: NextRequest) {
       );
     }
 
+    // Keep the sent reply in the conversation session history
+    try {
+      await recordSentReply(message_id, final_response);
+    } catch (sessionError) {
+      console.error('Failed to record sent reply in session:', sessionError);
+    }
+
     // Calculate feedback metrics for this sender
     const metricsResult = await client.query(
       `SELECT 
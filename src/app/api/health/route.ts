@@ -0,0 +1,39 @@
+import { NextResponse } from 'next/server';
+import { pool } from '@/lib/db';
+import { getCircuitStates } from '@/lib/resilience';
+
+const DATABASE_TIMEOUT_MS = 3000;
+
+/**
+ * GET /api/health
+ * Database reachability and the circuit breaker state of each upstream.
+ * Degraded while any circuit is open; 503 when the database is down.
+ */
+export async function GET() {
+  const startTime = Date.now();
+  let database: { ok: boolean; latency_ms?: number; error?: string };
+
+  try {
+    await Promise.race([
+      pool.query('SELECT 1'),
+      new Promise((_, reject) => setTimeout(() => reject(new Error('Timed out')), DATABASE_TIMEOUT_MS)),
+    ]);
+    database = { ok: true, latency_ms: Date.now() - startTime };
+  } catch (error) {
+    database = { ok: false, error: error instanceof Error ? error.message : 'Unknown error' };
+  }
+
+  const upstreams = getCircuitStates();
+  const degraded = upstreams.filter(upstream => upstream.state !== 'closed');
+
+  return NextResponse.json(
+    {
+      status: !database.ok ? 'unhealthy' : degraded.length > 0 ? 'degraded' : 'healthy',
+      database,
+      upstreams,
+      degraded: degraded.map(upstream => upstream.label),
+      timestamp: new Date().toISOString(),
+    },
+    { status: database.ok ? 200 : 503 }
+  );
+}
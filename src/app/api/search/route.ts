@@ -1,12 +1,7 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { Client } from 'pg';
-import OpenAI from 'openai';
 import type { SearchParams, SearchResult, AllianceProduct } from '@/types';
-
-// Initialize OpenAI
-const openai = new OpenAI({
-  apiKey: process.env.OPENAI_API_KEY,
-});
+import { EMBEDDING_DIMENSIONS, getLLMProvider, runWithUsageTags } from '@/lib/llm';
 
 /**
  * Hybrid product search combining BM25 (lexical) and vector similarity
@@ -45,12 +40,9 @@ export async function POST(request: NextRequest) {
 
     // Generate embedding for the query
     console.log('Generating query embedding...');
-    const embeddingResponse = await openai.embeddings.create({
-      model: 'text-embedding-3-small',
-      input: query,
-      dimensions: 1536,
-    });
-    const queryEmbedding = embeddingResponse.data[0].embedding;
+    const queryEmbedding = await runWithUsageTags({ route: '/api/search' }, () =>
+      getLLMProvider().embed(query, EMBEDDING_DIMENSIONS)
+    );
 
     // Build filter conditions
     const filterConditions: string[] = [];
@@ -0,0 +1,55 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { CustomerHistoryInput, getCustomerHistory, ToolError } from '@/lib/tools';
+
+/**
+ * POST /api/tools/customer-history
+ * Get a customer's past quotes, orders, emails and response stats
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const body: CustomerHistoryInput = await request.json();
+    const response = await getCustomerHistory(body);
+
+    return NextResponse.json(response);
+
+  } catch (error) {
+    if (error instanceof ToolError) {
+      return NextResponse.json(
+        error.body || { error: error.message },
+        { status: error.status }
+      );
+    }
+
+    console.error('Customer history error:', error);
+    return NextResponse.json(
+      {
+        error: 'Failed to retrieve customer history',
+        details: error instanceof Error ? error.message : 'Unknown error',
+      },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * GET /api/tools/customer-history
+ * Get customer history by email or domain
+ */
+export async function GET(request: NextRequest) {
+  const searchParams = request.nextUrl.searchParams;
+  const email = searchParams.get('email');
+  const domain = searchParams.get('domain');
+
+  if (!email && !domain) {
+    return NextResponse.json(
+      { error: 'Email or domain parameter required' },
+      { status: 400 }
+    );
+  }
+
+  // Delegate to POST handler
+  return POST(new NextRequest(request.url, {
+    method: 'POST',
+    body: JSON.stringify({ email: email || undefined, domain: domain || undefined }),
+  }));
+}
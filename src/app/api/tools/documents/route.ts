@@ -0,0 +1,60 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { DocumentsInput, getDocuments, ToolError } from '@/lib/tools';
+
+/**
+ * POST /api/tools/documents
+ * Get SDS, COA and tech data sheet links for a product
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const body: DocumentsInput = await request.json();
+    const response = await getDocuments(body);
+
+    return NextResponse.json(response);
+
+  } catch (error) {
+    if (error instanceof ToolError) {
+      return NextResponse.json(
+        error.body || { error: error.message },
+        { status: error.status }
+      );
+    }
+
+    console.error('Documents tool error:', error);
+    return NextResponse.json(
+      {
+        error: 'Failed to retrieve documents',
+        details: error instanceof Error ? error.message : 'Unknown error',
+      },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * GET /api/tools/documents
+ * Get documents by SKU, CAS number or lot number
+ */
+export async function GET(request: NextRequest) {
+  const searchParams = request.nextUrl.searchParams;
+  const sku = searchParams.get('sku');
+  const cas = searchParams.get('cas');
+  const lot = searchParams.get('lot');
+
+  if (!sku && !cas && !lot) {
+    return NextResponse.json(
+      { error: 'SKU, CAS or lot parameter required' },
+      { status: 400 }
+    );
+  }
+
+  // Delegate to POST handler
+  return POST(new NextRequest(request.url, {
+    method: 'POST',
+    body: JSON.stringify({
+      sku: sku || undefined,
+      cas_number: cas || undefined,
+      lot_number: lot || undefined,
+    }),
+  }));
+}
@@ -0,0 +1,32 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { lookupSpecs, SpecLookupInput, ToolError } from '@/lib/tools';
+
+/**
+ * POST /api/tools/spec-lookup
+ * Answer a technical question about a product from its catalog data
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const body: SpecLookupInput = await request.json();
+    const response = await lookupSpecs(body);
+
+    return NextResponse.json(response);
+
+  } catch (error) {
+    if (error instanceof ToolError) {
+      return NextResponse.json(
+        error.body || { error: error.message },
+        { status: error.status }
+      );
+    }
+
+    console.error('Spec lookup error:', error);
+    return NextResponse.json(
+      {
+        error: 'Failed to look up specifications',
+        details: error instanceof Error ? error.message : 'Unknown error',
+      },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,62 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { findSubstitutes, SubstitutesInput, ToolError } from '@/lib/tools';
+
+/**
+ * POST /api/tools/substitutes
+ * Suggest in-stock alternatives to a product or CAS number
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const body: SubstitutesInput = await request.json();
+    const response = await findSubstitutes(body);
+
+    return NextResponse.json(response);
+
+  } catch (error) {
+    if (error instanceof ToolError) {
+      return NextResponse.json(
+        error.body || { error: error.message },
+        { status: error.status }
+      );
+    }
+
+    console.error('Substitutes tool error:', error);
+    return NextResponse.json(
+      {
+        error: 'Failed to find alternatives',
+        details: error instanceof Error ? error.message : 'Unknown error',
+      },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * GET /api/tools/substitutes
+ * Get alternatives by SKU, CAS number or product name
+ */
+export async function GET(request: NextRequest) {
+  const searchParams = request.nextUrl.searchParams;
+  const sku = searchParams.get('sku');
+  const cas = searchParams.get('cas');
+  const name = searchParams.get('name');
+  const containerSize = searchParams.get('container_size');
+
+  if (!sku && !cas && !name) {
+    return NextResponse.json(
+      { error: 'SKU, CAS or name parameter required' },
+      { status: 400 }
+    );
+  }
+
+  // Delegate to POST handler
+  return POST(new NextRequest(request.url, {
+    method: 'POST',
+    body: JSON.stringify({
+      sku: sku || undefined,
+      cas_number: cas || undefined,
+      product_name: name || undefined,
+      container_size: containerSize || undefined,
+    }),
+  }));
+}
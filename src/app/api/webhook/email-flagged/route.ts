@@ -1,11 +1,14 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { Client } from 'pg';
+import { getCalendarContext } from '@/lib/business-calendar';
+import { openCase, OpenCaseResult, shouldOpenCase } from '@/lib/cases';
 
 interface EmailFlaggedWebhook {
   messageId: string;
   senderEmail: string;
   subject: string;
   classification: string;
+  conversationId?: string;
   bodyText?: string;
   bodyPreview?: string;
   aiReasoning?: string;
@@ -39,6 +42,7 @@ export async function POST(request: NextRequest) {
       senderEmail,
       subject,
       classification,
+      conversationId,
       bodyText,
       bodyPreview,
       aiReasoning,
@@ -55,6 +59,25 @@ export async function POST(request: NextRequest) {
 
     console.log(`Processing flagged email: ${messageId} from ${senderEmail}`);
 
+    // Complaints open a case so the promised follow-up is tracked
+    let supportCase: OpenCaseResult | null = null;
+    if (shouldOpenCase(classification)) {
+      try {
+        supportCase = await openCase({
+          message_id: messageId,
+          conversation_id: conversationId,
+          subject,
+          classification,
+          customer_email: senderEmail,
+          customer_name: senderEmail.split('@')[0],
+          text: bodyText || bodyPreview,
+        });
+        console.log(`${supportCase.created ? 'Opened' : 'Updated'} case ${supportCase.case.case_number} for ${messageId}`);
+      } catch (error) {
+        console.error('Failed to open case:', error);
+      }
+    }
+
     // Call our agent API to generate a response
     const agentResponse = await fetch(
       `${process.env.NEXT_PUBLIC_APP_URL || 'http://localhost:3000'}/api/agent`,
@@ -71,6 +94,9 @@ export async function POST(request: NextRequest) {
             customer_name: senderEmail.split('@')[0],
             classification,
             subject,
+            conversation_id: conversationId,
+            case_number: supportCase?.case.case_number,
+            case_due: supportCase?.sla_due_label,
           },
         }),
       }
@@ -79,18 +105,29 @@ export async function POST(request: NextRequest) {
     let generatedResponse = '';
     let toolsUsed: string[] = [];
     let responseConfidence = 0.5;
+    let guardViolations: any[] = [];
+    let policyViolations: any[] = [];
+    let autoApprovable = false;
+    let attachments: any[] = [];
+    let intents: string[] = [];
 
     if (agentResponse.ok) {
       const agentData = await agentResponse.json();
       generatedResponse = agentData.message || '';
       toolsUsed = agentData.tools_used || [];
       responseConfidence = agentData.confidence || 0.5;
+      guardViolations = agentData.guard?.violations || [];
+      policyViolations = agentData.policy?.violations || [];
+      autoApprovable = !!agentData.auto_approvable;
+      attachments = agentData.attachments || [];
+      intents = agentData.intents || [];
     } else {
       // Fallback to a template response if agent fails
       generatedResponse = await generateFallbackResponse(
         classification,
         subject,
-        senderEmail
+        senderEmail,
+        supportCase
       );
     }
 
@@ -107,14 +144,26 @@ export async function POST(request: NextRequest) {
         draft_response,
         tools_used,
         confidence_score,
+        guard_violations,
+        intents,
+        policy_violations,
+        auto_approvable,
+        attachments,
+        case_number,
         generated_at,
         status
-      ) VALUES ($1, $2, $3, $4, $5, $6, $7, NOW(), 'pending')
+      ) VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10, $11, $12, $13, NOW(), 'pending')
       ON CONFLICT (message_id) 
       DO UPDATE SET 
         draft_response = $5,
         tools_used = $6,
         confidence_score = $7,
+        guard_violations = $8,
+        intents = $9,
+        policy_violations = $10,
+        auto_approvable = $11,
+        attachments = $12,
+        case_number = COALESCE($13, email_response_drafts.case_number),
         generated_at = NOW(),
         status = 'pending'`,
       [
@@ -125,6 +174,12 @@ export async function POST(request: NextRequest) {
         generatedResponse,
         JSON.stringify(toolsUsed),
         responseConfidence,
+        JSON.stringify(guardViolations),
+        JSON.stringify(intents),
+        JSON.stringify(policyViolations),
+        autoApprovable,
+        JSON.stringify(attachments),
+        supportCase?.case.case_number || null,
       ]
     );
 
@@ -155,6 +210,11 @@ export async function POST(request: NextRequest) {
           classification,
           tools_used: toolsUsed,
           confidence: responseConfidence,
+          guard_violations: guardViolations.length,
+          policy_violations: policyViolations.length,
+          auto_approvable: autoApprovable,
+          attachments: attachments.length,
+          case_number: supportCase?.case.case_number,
         }),
       ]
     );
@@ -167,6 +227,11 @@ export async function POST(request: NextRequest) {
       response_generated: true,
       tools_used: toolsUsed,
       confidence: responseConfidence,
+      guard_violations: guardViolations,
+      policy_violations: policyViolations,
+      auto_approvable: autoApprovable,
+      attachments,
+      case_number: supportCase?.case.case_number,
     });
 
   } catch (error) {
@@ -189,24 +254,47 @@ export async function POST(request: NextRequest) {
 async function generateFallbackResponse(
   classification: string,
   subject: string,
-  senderEmail: string
+  senderEmail: string,
+  supportCase: OpenCaseResult | null
 ): Promise<string> {
+  const calendar = getCalendarContext();
+
+  // A case's SLA is the follow-up we promise; without one, the standard complaint turnaround
+  const complaintResponseBy = supportCase ? supportCase.sla_due_label : `${calendar.complaint_response_by} ${calendar.time_zone}`;
+  const caseReference = supportCase ? ` under case ${supportCase.case.case_number}` : '';
+
+  // Outside business hours, say when we're back instead of implying someone is on it now
+  const afterHoursNote = calendar.is_business_hours
+    ? ''
+    : `Our office is currently closed${calendar.holiday ? ` for ${calendar.holiday}` : ''}. We'll be back ${calendar.next_open} ${calendar.time_zone}.\n\n`;
+
+  const complaintTemplate = `Thank you for bringing this to our attention.
+
+${afterHoursNote}We take all customer concerns seriously. I've escalated your message about "${subject}" to our management team for review${caseReference}.
+
+You can expect a response by ${complaintResponseBy}.${supportCase ? ` Please reference ${supportCase.case.case_number} in any reply.` : ''}
+
+We appreciate your patience and the opportunity to make this right.
+
+Best regards,
+Alliance Chemical Customer Service`;
+
   const templates: Record<string, string> = {
     QUOTE_REQUEST: `Thank you for your inquiry about "${subject}".
 
-I'll prepare a detailed quote for you right away. To ensure accuracy, could you please confirm:
+${afterHoursNote}I'll prepare a detailed quote for you. To ensure accuracy, could you please confirm:
 - Quantity needed
 - Delivery location
 - Any specific grade or purity requirements
 
-I'll get back to you within 1 business day with pricing and availability.
+You'll have pricing and availability from us by ${calendar.quote_by} ${calendar.time_zone}. Orders placed now ship ${calendar.ship_date}.
 
 Best regards,
 Alliance Chemical Sales Team`,
 
     ORDER_STATUS: `Thank you for checking on your order status.
 
-I'm looking into "${subject}" for you now. Could you please provide your order number so I can give you the most accurate tracking information?
+${afterHoursNote}${calendar.is_business_hours ? `I'm looking into "${subject}" for you now.` : `We'll look into "${subject}" as soon as we're back.`} Could you please provide your order number so I can give you the most accurate tracking information?
 
 You can also track your order directly at: https://alliance-chemical.com/track
 
@@ -215,29 +303,22 @@ Alliance Chemical Customer Service`,
 
     PRODUCT_QUESTION: `Thank you for your question about "${subject}".
 
-I'll be happy to help you with product information. Our technical team will review your inquiry and provide detailed specifications and recommendations.
+${afterHoursNote}I'll be happy to help you with product information. Our technical team will review your inquiry and provide detailed specifications and recommendations.
 
-We'll respond within 1 business day with complete information.
+We'll respond by ${calendar.response_by} ${calendar.time_zone} with complete information.
 
 Best regards,
 Alliance Chemical Technical Support`,
 
-    COMPLAINT: `Thank you for bringing this to our attention.
-
-We take all customer concerns seriously. I've escalated your message about "${subject}" to our management team for immediate review.
+    COMPLAINT: complaintTemplate,
 
-You can expect a response within 4 business hours.
-
-We appreciate your patience and the opportunity to make this right.
-
-Best regards,
-Alliance Chemical Customer Service`,
+    ANGRY_CUSTOMER: complaintTemplate,
 
     DEFAULT: `Thank you for contacting Alliance Chemical.
 
-I've received your message about "${subject}" and will ensure the appropriate team member responds promptly.
+${afterHoursNote}I've received your message about "${subject}" and will ensure the appropriate team member responds promptly.
 
-We typically respond within 1 business day.
+You can expect a reply by ${calendar.response_by} ${calendar.time_zone}.
 
 Best regards,
 Alliance Chemical Team`,
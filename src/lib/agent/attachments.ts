@@ -0,0 +1,36 @@
+import type { DocumentsOutput, DocumentType, ToolResult } from '@/lib/tools';
+
+export interface DocumentAttachment {
+  doc_type: DocumentType;
+  title: string;
+  url: string;
+  product_name: string;
+  lot_number?: string;
+}
+
+/**
+ * Documents found by the documents tool, to attach to the reply.
+ * Each link is attached once.
+ */
+export function collectAttachments(toolResults: ToolResult[]): DocumentAttachment[] {
+  const attachments: DocumentAttachment[] = [];
+
+  toolResults
+    .filter(result => result.tool === 'documents' && result.data?.found)
+    .forEach(result => {
+      (result.data as DocumentsOutput).products.forEach(product => {
+        product.documents.forEach(doc => {
+          if (attachments.some(attachment => attachment.url === doc.url)) return;
+          attachments.push({
+            doc_type: doc.doc_type,
+            title: doc.title,
+            url: doc.url,
+            product_name: product.product_name,
+            lot_number: doc.lot_number,
+          });
+        });
+      });
+    });
+
+  return attachments;
+}
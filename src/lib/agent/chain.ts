@@ -0,0 +1,245 @@
+import type {
+  PricingOutput,
+  ProductSearchOutput,
+  ProductSearchVariant,
+  QuoteItem,
+  ToolCall,
+  ToolResult,
+} from '@/lib/tools';
+
+/**
+ * One step of a tool plan. Parameters are fixed, or built from the
+ * results of the steps it depends on - returning null skips the step.
+ * Steps only depend on steps listed before them.
+ */
+export interface PlanStep {
+  id: string;
+  tool: string;
+  dependsOn?: string[];
+  parameters: any | ((results: Record<string, ToolResult | undefined>) => any | null);
+}
+
+interface ContainerSize {
+  amount: number;
+  unit: string;
+}
+
+// Containers customers name by type rather than size
+const CONTAINER_TYPES: Record<string, ContainerSize> = {
+  drum: { amount: 55, unit: 'gallon' },
+  tote: { amount: 275, unit: 'gallon' },
+  pail: { amount: 5, unit: 'gallon' },
+};
+
+/**
+ * Parse "55 Gallon", "5 gal pail", "1 qt" or "drum" into an amount and unit
+ */
+export function parseContainerSize(text: string): ContainerSize | null {
+  const lower = text.toLowerCase();
+  const match = lower.match(/(\d+(?:\.\d+)?)\s*-?\s*(gallons?|gal|quarts?|qt|pints?|pt|pounds?|lbs?|liters?|l|kg)\b/);
+
+  if (match) {
+    const unit = match[2];
+    const normalized = unit.indexOf('gal') === 0 ? 'gallon'
+      : unit.indexOf('q') === 0 ? 'quart'
+      : unit.indexOf('p') === 0 && unit.indexOf('pound') !== 0 ? 'pint'
+      : unit.indexOf('lb') === 0 || unit.indexOf('pound') === 0 ? 'pound'
+      : unit === 'kg' ? 'kg'
+      : 'liter';
+    return { amount: parseFloat(match[1]), unit: normalized };
+  }
+
+  const type = Object.keys(CONTAINER_TYPES).find(name => lower.indexOf(name) !== -1);
+  return type ? CONTAINER_TYPES[type] : null;
+}
+
+/**
+ * Pick the variant for a requested container: an exact size match,
+ * else the closest size in the same unit, else the first variant.
+ * Available variants win over out-of-stock ones.
+ */
+export function selectVariant(
+  variants: ProductSearchVariant[],
+  containerSize?: string
+): ProductSearchVariant | undefined {
+  if (variants.length === 0) {
+    return undefined;
+  }
+
+  const ordered = variants.filter(v => v.available).concat(variants.filter(v => !v.available));
+  const wanted = containerSize ? parseContainerSize(containerSize) : null;
+  if (!wanted) {
+    return ordered[0];
+  }
+
+  let best: ProductSearchVariant | undefined;
+  let bestDistance = Infinity;
+  ordered.forEach(variant => {
+    const size = parseContainerSize(variant.container_size || '');
+    if (!size || size.unit !== wanted.unit) return;
+    const distance = Math.abs(size.amount - wanted.amount) / wanted.amount;
+    if (distance < bestDistance) {
+      best = variant;
+      bestDistance = distance;
+    }
+  });
+
+  return best || ordered[0];
+}
+
+/**
+ * The best-matching product and variant from a search result
+ */
+function resolveItem(
+  result: ToolResult | undefined,
+  containerSize?: string
+): { product_name: string; variant: ProductSearchVariant } | null {
+  const data = result?.data as ProductSearchOutput | undefined;
+  const product = data?.found ? data.products?.[0] : undefined;
+  const variant = product ? selectVariant(product.variants, containerSize) : undefined;
+
+  return product && variant ? { product_name: product.name, variant } : null;
+}
+
+/**
+ * Resolve free-text quote items into a quote: search each product,
+ * price the chosen variant at the requested quantity, then quote the
+ * priced SKUs. Items are searched and priced in parallel; items that
+ * already have a SKU go straight to the quote.
+ */
+export function buildQuoteChain(
+  items: QuoteItem[],
+  quoteParameters: Record<string, any> = {},
+  prefix: string = 'quote'
+): PlanStep[] {
+  const steps: PlanStep[] = [];
+  const pricedSteps: string[] = [];
+
+  items.forEach((item, i) => {
+    if (item.sku || !item.product_name) return;
+
+    const searchId = `${prefix}-search-${i}`;
+    const priceId = `${prefix}-price-${i}`;
+
+    steps.push({
+      id: searchId,
+      tool: 'product-search',
+      parameters: { query: item.product_name, limit: 3 },
+    });
+
+    steps.push({
+      id: priceId,
+      tool: 'pricing',
+      dependsOn: [searchId],
+      parameters: (results: Record<string, ToolResult | undefined>) => {
+        const resolved = resolveItem(results[searchId], item.container_size);
+        return resolved
+          ? {
+              sku: resolved.variant.sku,
+              quantity: item.quantity,
+              ship_to_zip: quoteParameters.shipping_address?.zip,
+              ship_to_state: quoteParameters.shipping_address?.state,
+              residential: quoteParameters.shipping_address?.residential,
+              po_box: quoteParameters.shipping_address?.po_box,
+              liftgate: quoteParameters.liftgate,
+            }
+          : null;
+      },
+    });
+
+    pricedSteps.push(priceId);
+  });
+
+  steps.push({
+    id: prefix,
+    tool: 'quote',
+    dependsOn: pricedSteps,
+    parameters: (results: Record<string, ToolResult | undefined>) => {
+      const resolvedItems = items.map((item, i) => {
+        if (item.sku || !item.product_name) return item;
+
+        // Quote the SKU pricing confirmed; unresolved names go to the quote tool as given
+        const priced = results[`${prefix}-price-${i}`]?.data as PricingOutput | undefined;
+        const resolved = resolveItem(results[`${prefix}-search-${i}`], item.container_size);
+        const sku = priced?.found ? priced.results?.[0]?.sku : resolved?.variant.sku;
+        return sku ? { sku, quantity: item.quantity } : item;
+      });
+      return { ...quoteParameters, items: resolvedItems };
+    },
+  });
+
+  return steps;
+}
+
+/**
+ * Resolve a free-text request to a product with product-search, then
+ * run a per-product tool (documents, spec-lookup, substitutes) on it
+ */
+export function buildProductLookupChain(
+  tool: string,
+  query: string,
+  parameters: Record<string, any> = {},
+  prefix: string = tool
+): PlanStep[] {
+  const searchId = `${prefix}-search`;
+
+  return [
+    {
+      id: searchId,
+      tool: 'product-search',
+      parameters: { query, limit: 1 },
+    },
+    {
+      id: prefix,
+      tool,
+      dependsOn: [searchId],
+      parameters: (results: Record<string, ToolResult | undefined>) => {
+        const data = results[searchId]?.data as ProductSearchOutput | undefined;
+        const product = data?.found ? data.products?.[0] : undefined;
+        return product ? { ...parameters, product_id: product.id } : null;
+      },
+    },
+  ];
+}
+
+// Per-product tools the regex router sends free text to, for the planner to resolve
+const PRODUCT_LOOKUP_TOOLS = ['documents', 'spec-lookup', 'substitutes'];
+
+function identifiesProduct(parameters: Record<string, any>): boolean {
+  return ['product_id', 'product_name', 'sku', 'cas_number'].some(field => parameters[field]);
+}
+
+/**
+ * Turn routed tool calls into a plan. Quote calls whose items are
+ * named rather than given by SKU become search -> price -> quote
+ * chains, and document, spec and substitute requests that don't
+ * identify a product become search -> lookup chains; every other
+ * call is an independent step.
+ */
+export function planToolSteps(toolCalls: ToolCall[]): PlanStep[] {
+  const steps: PlanStep[] = [];
+
+  toolCalls.forEach((call, i) => {
+    const items: QuoteItem[] = call.parameters?.items || [];
+    if (call.tool === 'quote' && items.some(item => !item.sku && item.product_name)) {
+      steps.push(...buildQuoteChain(items, call.parameters, `quote-${i}`));
+      return;
+    }
+
+    if (PRODUCT_LOOKUP_TOOLS.indexOf(call.tool) !== -1) {
+      const { query, ...parameters } = call.parameters || {};
+      const text = query || parameters.question;
+      // A lot number identifies the product through its COA
+      if (text && !identifiesProduct(parameters) && !parameters.lot_number) {
+        steps.push(...buildProductLookupChain(call.tool, text, parameters, `${call.tool}-${i}`));
+      } else {
+        steps.push({ id: `${call.tool}-${i}`, tool: call.tool, parameters });
+      }
+      return;
+    }
+
+    steps.push({ id: `${call.tool}-${i}`, tool: call.tool, parameters: call.parameters });
+  });
+
+  return steps;
+}
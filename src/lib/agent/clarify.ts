@@ -0,0 +1,264 @@
+import { pool } from '@/lib/db';
+import type { ProductSearchOutput, ToolCall, ToolResult } from '@/lib/tools';
+import { extractProductsFromMessage, extractShipToZip } from './intents';
+
+export type QuoteField = 'product' | 'grade' | 'container_size' | 'quantity' | 'ship_to_zip';
+
+export interface QuoteRequirements {
+  product?: string;
+  grade?: string;
+  container_size?: string;
+  quantity?: number;
+  ship_to_zip?: string;
+}
+
+export interface CandidateProduct {
+  id: number;
+  name: string;
+  cas_number?: string;
+  container_options: Array<{ sku: string; container_size: string; price: number; available: boolean }>;
+}
+
+export interface QuoteClarification {
+  requirements: QuoteRequirements;
+  missing_fields: QuoteField[];
+  candidates: CandidateProduct[];
+  quote_number?: string;
+}
+
+const REQUIRED_QUOTE_FIELDS: QuoteField[] = ['product', 'grade', 'container_size', 'quantity', 'ship_to_zip'];
+
+export const QUOTE_FIELD_LABELS: Record<QuoteField, string> = {
+  product: 'Product',
+  grade: 'Grade or concentration',
+  container_size: 'Container size',
+  quantity: 'Quantity',
+  ship_to_zip: 'Ship-to ZIP code',
+};
+
+// The customer asked for a formal quote, not just a price
+const QUOTE_REQUEST_PATTERN = /\bquot(?:e|es|ation)\b/i;
+
+const GRADE_PATTERN = /\b(ACS|USP|NF|FCC|reagent|technical|tech|food|lab(?:oratory)?|industrial|electronic|HPLC|kosher)\s*(?:grade)?\b|\b\d{1,3}(?:\.\d+)?\s*%/i;
+const CONTAINER_PATTERN = /\b(\d+(?:\.\d+)?\s*(?:-\s*)?(?:gallons?|gal|quarts?|qt|liters?|l|lbs?|pounds?|kg)|drums?|totes?|pails?|jugs?|bottles?|ibc)\b/i;
+const QUANTITY_PATTERN = /\b(\d+)\s*(?:x\s*)?(?:drums?|totes?|pails?|jugs?|bottles?|cases?|units?|pallets?|containers?)\b|\b(?:qty|quantity)\s*:?\s*(\d+)\b/i;
+
+/**
+ * Normalize a container mention to the catalog's container_size format
+ */
+export function normalizeContainerSize(container: string): string {
+  const lower = container.toLowerCase();
+  if (/drum/.test(lower)) return '55 Gallon';
+  if (/tote|ibc/.test(lower)) return '275 Gallon';
+  if (/pail/.test(lower)) return '5 Gallon';
+
+  const sizeMatch = lower.match(/(\d+(?:\.\d+)?)\s*(?:-\s*)?(gallons?|gal|quarts?|qt|liters?|l|lbs?|pounds?|kg)/);
+  if (sizeMatch) {
+    const unit = sizeMatch[2];
+    if (/^gal/.test(unit)) return `${sizeMatch[1]} Gallon`;
+    if (/^(quart|qt)/.test(unit)) return `${sizeMatch[1]} Quart`;
+    if (/^(liter|l$)/.test(unit)) return `${sizeMatch[1]} Liter`;
+    if (/^(lb|pound)/.test(unit)) return `${sizeMatch[1]} lb`;
+    if (unit === 'kg') return `${sizeMatch[1]} kg`;
+  }
+
+  return container;
+}
+
+/**
+ * Pull the quote fields a customer provided out of the message
+ */
+export function extractQuoteRequirements(
+  message: string,
+  toolCalls: ToolCall[],
+  detectedProducts: string[] = []
+): QuoteRequirements {
+  const requirements: QuoteRequirements = {};
+
+  const extracted = extractProductsFromMessage(message);
+  const quoteCall = toolCalls.find(call => call.tool === 'quote');
+  const quoteItem = quoteCall?.parameters?.items?.[0];
+
+  requirements.product = quoteItem?.product_name || quoteItem?.sku || extracted[0]?.product_name || detectedProducts[0];
+
+  const gradeMatch = message.match(GRADE_PATTERN);
+  if (gradeMatch) {
+    requirements.grade = gradeMatch[0].trim();
+  }
+
+  const containerMatch = message.match(CONTAINER_PATTERN);
+  if (quoteItem?.container_size) {
+    requirements.container_size = quoteItem.container_size;
+  } else if (containerMatch) {
+    requirements.container_size = normalizeContainerSize(containerMatch[0].trim());
+  }
+
+  const quantityMatch = message.match(QUANTITY_PATTERN);
+  if (quoteItem?.quantity) {
+    requirements.quantity = quoteItem.quantity;
+  } else if (quantityMatch) {
+    requirements.quantity = parseInt(quantityMatch[1] || quantityMatch[2]);
+  } else if (extracted[0]?.quantity) {
+    requirements.quantity = extracted[0].quantity;
+  }
+
+  requirements.ship_to_zip = extractShipToZip(message);
+
+  return requirements;
+}
+
+/**
+ * Whether to ask for missing quote details: only when the customer asked
+ * for a quote (or is answering our questions about one) and neither a
+ * quote nor pricing came back - a price answer stands on its own
+ */
+export function needsQuoteClarification(
+  message: string,
+  toolCalls: ToolCall[],
+  toolResults: ToolResult[],
+  awaitingInput: boolean = false
+): boolean {
+  const priced = toolResults.some(r =>
+    (r.tool === 'quote' && r.data?.success) || (r.tool === 'pricing' && r.data?.found)
+  );
+  if (priced) {
+    return false;
+  }
+
+  return awaitingInput ||
+    toolCalls.some(call => call.tool === 'quote') ||
+    QUOTE_REQUEST_PATTERN.test(message);
+}
+
+/**
+ * List the required quote fields the customer has not provided
+ */
+export function findMissingQuoteFields(requirements: QuoteRequirements): QuoteField[] {
+  return REQUIRED_QUOTE_FIELDS.filter(field => !requirements[field]);
+}
+
+/**
+ * Turn product-search results into candidates with their real container options
+ */
+export function collectCandidates(toolResults: ToolResult[], limit: number = 3): CandidateProduct[] {
+  const candidates: CandidateProduct[] = [];
+
+  toolResults
+    .filter(result => result.tool === 'product-search' && result.data?.found)
+    .forEach(result => {
+      const data = result.data as ProductSearchOutput;
+      (data.products || []).forEach(product => {
+        if (candidates.some(c => c.id === product.id)) return;
+        candidates.push({
+          id: product.id,
+          name: product.name,
+          cas_number: product.cas_number,
+          container_options: product.variants.map(v => ({
+            sku: v.sku,
+            container_size: v.container_size,
+            price: v.price,
+            available: v.available,
+          })),
+        });
+      });
+    });
+
+  return candidates.slice(0, limit);
+}
+
+/**
+ * Build the prompt for a focused clarifying reply
+ */
+export function buildClarificationPrompt(message: string, clarification: QuoteClarification): string {
+  let prompt = `Customer inquiry: ${message}\n\n`;
+
+  prompt += 'The customer is asking for a quote, but we cannot price it yet. Missing information:\n';
+  prompt += clarification.missing_fields.map(f => `- ${QUOTE_FIELD_LABELS[f]}`).join('\n') + '\n\n';
+
+  const provided = (Object.keys(clarification.requirements) as QuoteField[])
+    .filter(field => clarification.requirements[field]);
+  if (provided.length > 0) {
+    prompt += 'Already provided:\n';
+    prompt += provided.map(f => `- ${QUOTE_FIELD_LABELS[f]}: ${clarification.requirements[f]}`).join('\n') + '\n\n';
+  }
+
+  if (clarification.candidates.length > 0) {
+    prompt += 'Matching catalog products and their available containers:\n';
+    clarification.candidates.forEach(candidate => {
+      prompt += `- ${candidate.name}${candidate.cas_number ? ` (CAS ${candidate.cas_number})` : ''}\n`;
+      candidate.container_options.forEach(option => {
+        prompt += `    • ${option.container_size} - SKU ${option.sku}${option.available ? '' : ' (currently out of stock)'}\n`;
+      });
+    });
+    prompt += '\n';
+  } else {
+    prompt += 'No matching catalog products were found. Ask the customer to describe the product (name, CAS number or application).\n\n';
+  }
+
+  prompt += `Instructions:
+- Write a short, focused reply asking ONLY for the missing information listed above
+- Present the missing items as a numbered list so the customer can answer quickly
+- When asking about containers, list only the container options shown above
+- Do not quote prices or invent products, grades or containers
+- Let them know we will send the full quote as soon as we have these details`;
+
+  return prompt;
+}
+
+/**
+ * Record a quote that is waiting on customer input
+ */
+export async function recordPendingQuote(
+  clarification: QuoteClarification,
+  customer: { email?: string; name?: string; email_id?: string },
+  existingQuoteNumber?: string
+): Promise<string | undefined> {
+  try {
+    // A follow-up that is still incomplete updates the pending quote it answers
+    if (existingQuoteNumber) {
+      await pool.query(
+        `UPDATE alliance_quotes
+         SET notes = $2,
+             metadata = metadata || $3::jsonb,
+             updated_at = NOW()
+         WHERE quote_number = $1`,
+        [
+          existingQuoteNumber,
+          `Awaiting customer input: ${clarification.missing_fields.join(', ')}`,
+          JSON.stringify({
+            requirements: clarification.requirements,
+            missing_fields: clarification.missing_fields,
+          }),
+        ]
+      );
+      return existingQuoteNumber;
+    }
+
+    const result = await pool.query(
+      `INSERT INTO alliance_quotes (
+        customer_email,
+        customer_name,
+        status,
+        notes,
+        metadata
+      ) VALUES ($1, $2, 'pending_customer_input', $3, $4)
+      RETURNING quote_number`,
+      [
+        customer.email || 'unknown',
+        customer.name || 'Unknown Customer',
+        `Awaiting customer input: ${clarification.missing_fields.join(', ')}`,
+        JSON.stringify({
+          email_id: customer.email_id,
+          requirements: clarification.requirements,
+          missing_fields: clarification.missing_fields,
+          candidate_product_ids: clarification.candidates.map(c => c.id),
+        }),
+      ]
+    );
+
+    return result.rows[0]?.quote_number;
+  } catch (error) {
+    console.error('Failed to record pending quote:', error);
+    return undefined;
+  }
+}
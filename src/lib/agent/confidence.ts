@@ -0,0 +1,210 @@
+import { pool } from '@/lib/db';
+import { aiCache, CacheService } from '@/lib/cache';
+import type {
+  DocumentsOutput,
+  OrderStatusOutput,
+  PricingOutput,
+  ProductSearchOutput,
+  QuoteOutput,
+  SpecLookupOutput,
+  SubstitutesOutput,
+  ToolResult,
+} from '@/lib/tools';
+import type { AgentIntent } from './intents';
+import { applyGuardPenalty, GuardResult } from './guard';
+
+export interface ConfidenceSignals {
+  intent: number;
+  tools: number;
+  // 1 - historical edit rate for these intents, when there is enough history
+  history: number | null;
+  guard_factor: number;
+}
+
+export interface ConfidenceResult {
+  score: number;
+  signals: ConfidenceSignals;
+}
+
+// Relative weight of each signal before the guard penalty
+const SIGNAL_WEIGHTS = {
+  intent: 0.3,
+  tools: 0.45,
+  history: 0.25,
+};
+
+// Sent drafts needed before an intent's edit rate is trusted
+const MIN_HISTORY_SAMPLES = 10;
+const HISTORY_WINDOW_DAYS = 90;
+
+// Tools that add context but don't answer the request
+const AUXILIARY_TOOLS = ['customer-history'];
+
+/**
+ * How sure we are of what the customer asked for
+ */
+function scoreIntent(intents: AgentIntent[], routing: 'llm' | 'regex'): number {
+  if (intents.length === 1 && intents[0].category === 'general') {
+    return 0.6;
+  }
+
+  // Intents backed by a tool result are more certain than pattern matches alone
+  const backed = intents.filter(intent => intent.tools.length > 0).length;
+  const score = 0.75 + 0.25 * (backed / intents.length);
+
+  return routing === 'regex' ? score * 0.9 : score;
+}
+
+/**
+ * How good a single tool result is for drafting a reply
+ */
+function scoreToolResult(result: ToolResult): number {
+  if (result.error) {
+    return 0.4;
+  }
+
+  switch (result.tool) {
+    case 'product-search': {
+      const data = result.data as ProductSearchOutput;
+      if (!data.found || !data.products?.length) return 0.5;
+      if (data.search_type !== 'semantic') return 0.7;
+      // Best cosine similarity, mapped so 0.5+ similarity scores well
+      const best = Math.max.apply(null, data.products.map(p => p.similarity_score || 0));
+      return Math.min(1, 0.5 + best);
+    }
+    case 'quote': {
+      const data = result.data as QuoteOutput;
+      if (!data.success || data.line_items.length === 0) return 0.5;
+      const found = data.line_items.filter(item => item.sku !== 'NOT_FOUND').length;
+      const score = 0.4 + 0.6 * (found / data.line_items.length);
+      // A hazmat restriction on the destination needs a person to sort out
+      return data.hazmat_compliance?.can_ship === false ? Math.min(score, 0.7) : score;
+    }
+    case 'order-status': {
+      const data = result.data as OrderStatusOutput;
+      return data.found ? 1 : 0.6;
+    }
+    case 'pricing': {
+      const data = result.data as PricingOutput;
+      if (!data.found) return 0.6;
+      return data.results?.some(p => p.hazmat_compliance?.can_ship === false) ? 0.7 : 1;
+    }
+    case 'spec-lookup': {
+      const data = result.data as SpecLookupOutput;
+      if (!data.found) return 0.6;
+      return data.answers.length > 0 ? 1 : 0.85;
+    }
+    case 'substitutes': {
+      const data = result.data as SubstitutesOutput;
+      if (!data.found) return 0.6;
+      return data.substitutes.some(s => s.matches.cas_number) ? 1 : 0.85;
+    }
+    case 'documents': {
+      const data = result.data as DocumentsOutput;
+      if (!data.found) return 0.6;
+      return data.products.some(p => p.missing.length > 0) ? 0.8 : 1;
+    }
+    default:
+      return 0.85;
+  }
+}
+
+function scoreTools(toolResults: ToolResult[]): number {
+  const scored = toolResults.filter(r => AUXILIARY_TOOLS.indexOf(r.tool) === -1);
+
+  if (scored.length === 0) {
+    return 0.8;
+  }
+
+  const total = scored.reduce((sum, result) => sum + scoreToolResult(result), 0);
+  return total / scored.length;
+}
+
+/**
+ * Edit rate of sent drafts per intent, cached for 10 minutes
+ */
+export async function getIntentEditRates(): Promise<Record<string, { edit_rate: number; samples: number }>> {
+  return aiCache.getOrSet(
+    CacheService.createKey('intent-edit-rates', HISTORY_WINDOW_DAYS),
+    async () => {
+      const result = await pool.query(
+        `SELECT
+          intent,
+          COUNT(*) as samples,
+          AVG(CASE WHEN was_edited THEN 1 ELSE 0 END) as edit_rate
+        FROM email_response_drafts,
+          jsonb_array_elements_text(intents) as intent
+        WHERE final_response IS NOT NULL
+          AND generated_at > NOW() - ($1 || ' days')::interval
+        GROUP BY intent`,
+        [HISTORY_WINDOW_DAYS]
+      );
+
+      const rates: Record<string, { edit_rate: number; samples: number }> = {};
+      result.rows.forEach(row => {
+        rates[row.intent] = {
+          edit_rate: parseFloat(row.edit_rate),
+          samples: parseInt(row.samples),
+        };
+      });
+      return rates;
+    },
+    { ttl: 600 }
+  );
+}
+
+async function scoreHistory(intents: AgentIntent[]): Promise<number | null> {
+  try {
+    const rates = await getIntentEditRates();
+    const known = intents
+      .map(intent => rates[intent.category])
+      .filter(rate => rate && rate.samples >= MIN_HISTORY_SAMPLES);
+
+    if (known.length === 0) {
+      return null;
+    }
+
+    // The least reliable intent decides - one weak section means an edit
+    return Math.min.apply(null, known.map(rate => 1 - rate.edit_rate));
+  } catch (error) {
+    console.error('Failed to load edit rates:', error);
+    return null;
+  }
+}
+
+/**
+ * Score how likely a draft is to be sent without edits, combining intent
+ * certainty, tool result quality and the historical edit rate for the
+ * intents, then applying the guard penalty.
+ */
+export async function scoreConfidence(run: {
+  intents: AgentIntent[];
+  routing: 'llm' | 'regex';
+  toolResults: ToolResult[];
+  guard: GuardResult;
+}): Promise<ConfidenceResult> {
+  const intent = scoreIntent(run.intents, run.routing);
+  const tools = scoreTools(run.toolResults);
+  const history = await scoreHistory(run.intents);
+
+  let weighted = intent * SIGNAL_WEIGHTS.intent + tools * SIGNAL_WEIGHTS.tools;
+  let totalWeight = SIGNAL_WEIGHTS.intent + SIGNAL_WEIGHTS.tools;
+
+  if (history !== null) {
+    weighted += history * SIGNAL_WEIGHTS.history;
+    totalWeight += SIGNAL_WEIGHTS.history;
+  }
+
+  const base = weighted / totalWeight;
+  const score = applyGuardPenalty(base, run.guard);
+
+  return {
+    score: Math.round(score * 100) / 100,
+    signals: {
+      intent: Math.round(intent * 100) / 100,
+      tools: Math.round(tools * 100) / 100,
+      history: history !== null ? Math.round(history * 100) / 100 : null,
+      guard_factor: base > 0 ? Math.round((score / base) * 100) / 100 : 1,
+    },
+  };
+}
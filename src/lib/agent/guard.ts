@@ -0,0 +1,184 @@
+import type { ToolResult } from '@/lib/tools';
+
+export type GuardEntityType = 'price' | 'sku' | 'cas_number' | 'order_number' | 'tracking_number';
+
+export interface GuardViolation {
+  type: GuardEntityType;
+  value: string;
+  reason: string;
+}
+
+export interface GuardResult {
+  passed: boolean;
+  checked: number;
+  violations: GuardViolation[];
+}
+
+// Confidence lost per ungrounded value, with a floor
+const VIOLATION_PENALTY = 0.2;
+const MIN_CONFIDENCE_FACTOR = 0.3;
+
+const PRICE_PATTERN = /\$\s?(\d[\d,]*(?:\.\d+)?)\s*(k|m|million|thousand)?\b/gi;
+const CAS_PATTERN = /\b\d{2,7}-\d{2}-\d\b/g;
+// Uppercase codes with a hyphen, at least one digit and one letter (e.g. IPA-99-55G)
+const SKU_PATTERN = /\b(?=[A-Z0-9-]*\d)(?=[A-Z0-9-]*[A-Z])[A-Z0-9]+(?:-[A-Z0-9]+)+\b/g;
+export const ORDER_PATTERN = /\border\s*(?:number|no\.?)?\s*#?\s*(\d{4,})\b/gi;
+export const TRACKING_PATTERNS = [
+  /\b1Z[0-9A-Z]{16}\b/g,   // UPS
+  /\b\d{12,22}\b/g,        // FedEx / USPS
+];
+
+/**
+ * Parse a dollar amount match into a number ("$5M" -> 5000000)
+ */
+function parseAmount(amount: string, suffix?: string): number {
+  let value = parseFloat(amount.replace(/,/g, ''));
+  const unit = (suffix || '').toLowerCase();
+  if (unit === 'k' || unit === 'thousand') value *= 1000;
+  if (unit === 'm' || unit === 'million') value *= 1000000;
+  return value;
+}
+
+function matchAll(pattern: RegExp, text: string, group: number = 0): string[] {
+  const values: string[] = [];
+  const regex = new RegExp(pattern.source, pattern.flags);
+  let match;
+  while ((match = regex.exec(text)) !== null) {
+    values.push(match[group]);
+  }
+  return values;
+}
+
+// Tool data keys that hold money: prices, totals, fees and shipping charges
+const MONEY_KEY_PATTERN = /(?:^|_)(?:price|total|subtotal|fees?|amount|cost|charge|surcharge)$|^shipping(?:_estimate)?$/;
+
+/**
+ * Collect the prices, totals, fees and shipping charges in the tool data,
+ * plus their products with quantities so computed line totals are accepted.
+ * Dollar amounts in the policy text (system prompts) count as well; the
+ * customer's own figures don't.
+ */
+function collectKnownAmounts(toolResults: ToolResult[], policyText: string): number[] {
+  const amounts: number[] = [];
+  const quantities: number[] = [];
+
+  const walk = (value: any, key?: string) => {
+    if (value === null || value === undefined) return;
+    const money = !!key && MONEY_KEY_PATTERN.test(key);
+    if (typeof value === 'number') {
+      if (money) amounts.push(value);
+      if (key === 'quantity') quantities.push(value);
+    } else if (typeof value === 'string' && /^\d+(\.\d+)?$/.test(value)) {
+      if (money) amounts.push(parseFloat(value));
+    } else if (Array.isArray(value)) {
+      value.forEach(item => walk(item));
+    } else if (typeof value === 'object') {
+      Object.keys(value).forEach(k => walk(value[k], k));
+    }
+  };
+
+  toolResults.forEach(result => walk(result.data));
+
+  const derived: number[] = [];
+  quantities.forEach(qty => {
+    amounts.forEach(amount => derived.push(amount * qty));
+  });
+
+  // Dollar amounts stated in policies and company facts
+  const regex = new RegExp(PRICE_PATTERN.source, PRICE_PATTERN.flags);
+  let match;
+  while ((match = regex.exec(policyText)) !== null) {
+    amounts.push(parseAmount(match[1], match[2]));
+  }
+
+  return amounts.concat(derived);
+}
+
+/**
+ * Verify that every price, SKU, CAS number, order number and tracking
+ * number in a draft is grounded in the tool results or the prompt
+ * context the model was given. Prices are only checked against tool
+ * price fields and the policy text, never the customer's message.
+ */
+export function verifyDraft(
+  draft: string,
+  toolResults: ToolResult[],
+  sourceText: string,
+  policyText: string
+): GuardResult {
+  const violations: GuardViolation[] = [];
+  let checked = 0;
+
+  const groundText = (sourceText + '\n' + JSON.stringify(toolResults.map(r => r.data))).toLowerCase();
+  const knownAmounts = collectKnownAmounts(toolResults, policyText);
+
+  // Dollar amounts
+  const priceRegex = new RegExp(PRICE_PATTERN.source, PRICE_PATTERN.flags);
+  let match;
+  while ((match = priceRegex.exec(draft)) !== null) {
+    checked++;
+    const value = parseAmount(match[1], match[2]);
+    if (!knownAmounts.some(known => Math.abs(known - value) < 0.01)) {
+      violations.push({
+        type: 'price',
+        value: match[0].trim(),
+        reason: 'Amount does not match any price or total returned by the tools',
+      });
+    }
+  }
+
+  const checkGrounded = (type: GuardEntityType, values: string[], reason: string) => {
+    values.forEach(value => {
+      checked++;
+      if (groundText.indexOf(value.toLowerCase()) === -1) {
+        violations.push({ type, value, reason });
+      }
+    });
+  };
+
+  const casNumbers = matchAll(CAS_PATTERN, draft);
+  checkGrounded('cas_number', casNumbers, 'CAS number not found in tool results');
+
+  const skus = matchAll(SKU_PATTERN, draft).filter(sku => casNumbers.indexOf(sku) === -1);
+  checkGrounded('sku', skus, 'SKU not found in tool results');
+
+  checkGrounded('order_number', matchAll(ORDER_PATTERN, draft, 1), 'Order number not found in the email or tool results');
+
+  TRACKING_PATTERNS.forEach(pattern => {
+    checkGrounded('tracking_number', matchAll(pattern, draft), 'Tracking number not found in tool results');
+  });
+
+  // Report each ungrounded value once
+  const seen: Record<string, boolean> = {};
+  const unique = violations.filter(v => {
+    const key = `${v.type}:${v.value}`;
+    if (seen[key]) return false;
+    seen[key] = true;
+    return true;
+  });
+
+  return {
+    passed: unique.length === 0,
+    checked,
+    violations: unique,
+  };
+}
+
+/**
+ * Lower a confidence score according to the number of violations
+ */
+export function applyGuardPenalty(confidence: number, guard: GuardResult): number {
+  if (guard.passed) return confidence;
+  const factor = Math.max(MIN_CONFIDENCE_FACTOR, 1 - VIOLATION_PENALTY * guard.violations.length);
+  return Math.round(confidence * factor * 100) / 100;
+}
+
+/**
+ * Corrective instruction for regenerating a draft that failed verification
+ */
+export function buildCorrection(guard: GuardResult): string {
+  const values = guard.violations.map(v => `${v.value} (${v.type.replace('_', ' ')})`).join(', ');
+  return `A previous draft contained values that are not in the retrieved data: ${values}. ` +
+    'Only use prices, SKUs, CAS numbers, order numbers and tracking numbers exactly as they appear in the data retrieved. ' +
+    'If a value is not available, say so and offer to follow up instead of guessing.';
+}
@@ -0,0 +1,432 @@
+import { randomUUID } from 'crypto';
+import { Client } from 'pg';
+import { runWithUsageTags } from '@/lib/llm';
+import type { ToolCall } from '@/lib/tools';
+import { detectIntents } from './intents';
+import { executeToolCalls, planAndExecuteTools, ToolScope } from './tool-loop';
+import { describeUnavailableData, generateResponse, getModelParams } from './response';
+import { buildCorrection, verifyDraft } from './guard';
+import { scoreConfidence } from './confidence';
+import { enforcePolicy } from './policy';
+import { collectAttachments } from './attachments';
+import {
+  buildCacheKey,
+  findCachedResponse,
+  isCacheable,
+  SemanticCacheKey,
+  storeCachedResponse,
+} from './response-cache';
+import {
+  collectCandidates,
+  extractQuoteRequirements,
+  findMissingQuoteFields,
+  needsQuoteClarification,
+  QuoteClarification,
+  recordPendingQuote,
+} from './clarify';
+import {
+  buildFollowUpQuoteCall,
+  getConversationId,
+  isQuoteFollowUp,
+  loadSession,
+  mergeRequirements,
+  nextSessionState,
+  saveTurn,
+  summarizeSession,
+} from './session';
+import { buildTrace, createToolTimer, saveTrace } from './trace';
+import type { AgentEventHandler, AgentRequest, AgentResponse } from './types';
+
+export * from './types';
+export type { DocumentAttachment } from './attachments';
+
+// Regeneration attempts when a draft fails the hallucination guard
+const MAX_GUARD_REGENERATIONS = parseInt(process.env.AGENT_GUARD_REGENERATIONS || '1');
+
+/**
+ * Run the agent end to end: plan and execute tools, detect intents,
+ * generate the draft and log the interaction. Progress is reported
+ * through onEvent when given (used by the streaming endpoint).
+ * Every run is traced; a dry run returns the trace without calling
+ * the LLM or recording anything besides the trace.
+ * LLM usage is tagged with the trace ID and the email ID.
+ */
+export async function runAgent(
+  body: AgentRequest,
+  onEvent?: AgentEventHandler
+): Promise<AgentResponse> {
+  const traceId = randomUUID();
+
+  return runWithUsageTags(
+    { request_id: traceId, message_id: body.context?.email_id },
+    () => executeAgent(body, traceId, onEvent)
+  );
+}
+
+async function executeAgent(
+  body: AgentRequest,
+  traceId: string,
+  onEvent?: AgentEventHandler
+): Promise<AgentResponse> {
+  const startTime = Date.now();
+  const { message, emailContext } = body;
+  const dryRun = !!body.dryRun;
+  let { context } = body;
+  const senderEmail = emailContext?.sender?.email || context?.customer_email;
+
+  // Load the thread's session so follow-ups build on earlier turns
+  const conversationId = getConversationId(body);
+  const session = conversationId
+    ? await loadSession(conversationId, senderEmail, !dryRun)
+        .catch(error => {
+          console.error('Failed to load session:', error);
+          return undefined;
+        })
+    : undefined;
+
+  if (session) {
+    context = { ...context, session_summary: summarizeSession(session) };
+  }
+
+  // Look for a generic answer to the same question - a message in an
+  // ongoing thread depends on its history, a complaint on its case. The
+  // session exists from the thread's first message, so check for turns.
+  const hasHistory = !!session && session.turns.length > 0;
+  let cacheKey: SemanticCacheKey | null = null;
+  if (!hasHistory && !dryRun && !context?.case_number) {
+    try {
+      cacheKey = await buildCacheKey(message, context, emailContext);
+      const hit = cacheKey && await findCachedResponse(cacheKey, context, emailContext);
+      if (hit) {
+        onEvent?.({ type: 'token', content: hit.response.message });
+
+        // Trace the hit like any other run - no tools, no model call
+        const trace = buildTrace({
+          traceId,
+          message,
+          dryRun,
+          emailId: context?.email_id,
+          conversationId,
+          routing: 'cache',
+          intents: hit.response.intents.map(category => ({ category, tools: [] })),
+          toolCalls: [],
+          toolResults: [],
+          toolDurations: [],
+          response: { text: hit.response.message, sections: hit.response.metadata.sections || [], prompts: [] },
+          modelParams: getModelParams(),
+          startTime,
+        });
+        await saveTrace(trace);
+
+        // The thread's first message - keep it as history for follow-ups
+        let sessionInfo: AgentResponse['metadata']['session'];
+        if (session) {
+          const turn = await saveTurn(session, {
+            message_id: context?.email_id,
+            inbound_message: message,
+            tool_calls: [],
+            tool_results: [],
+            draft_response: hit.response.message,
+          }, session.state);
+          sessionInfo = {
+            conversation_id: session.conversation_id,
+            turn: turn || session.turns.length + 1,
+            active_quote: session.state.active_quote?.quote_number,
+          };
+        }
+
+        // Only the draft is reused - everything about the run is this request's
+        return {
+          ...hit.response,
+          tools_used: [],
+          attachments: [],
+          metadata: {
+            timestamp: new Date().toISOString(),
+            cached: true,
+            cache_similarity: hit.similarity,
+            trace_id: trace.trace_id,
+            tool_steps: 0,
+            confidence_signals: hit.response.metadata.confidence_signals,
+            sections: hit.response.metadata.sections,
+            session: sessionInfo,
+          },
+        };
+      }
+    } catch (error) {
+      console.error('Response cache lookup failed:', error);
+    }
+  }
+
+  // Tools act for the sender, never for whoever the model names
+  const scope: ToolScope = {
+    customer_email: senderEmail,
+    customer_name: emailContext?.sender?.name || context?.customer_name,
+    quote_number: session?.state.active_quote?.quote_number,
+  };
+
+  // Record each tool's latency for the trace
+  const toolTimer = createToolTimer(onEvent);
+
+  // Let the model pick and run tools (regex routing if unavailable)
+  const { toolCalls, toolResults, routing } = await planAndExecuteTools(
+    message,
+    context,
+    emailContext,
+    toolTimer.onEvent,
+    dryRun,
+    scope
+  );
+
+  // Apply follow-ups like "make it 4 drums instead" to the thread's active quote
+  const activeQuote = session?.state.active_quote;
+  if (
+    activeQuote &&
+    !toolCalls.some(call => call.tool === 'quote') &&
+    (isQuoteFollowUp(message) || activeQuote.status === 'pending_customer_input')
+  ) {
+    const followUpCall = buildFollowUpQuoteCall(activeQuote, message);
+    if (followUpCall) {
+      const [followUpResult] = await executeToolCalls([followUpCall], toolTimer.onEvent, dryRun, scope);
+      toolCalls.push(followUpCall);
+      toolResults.push(followUpResult);
+    }
+  }
+
+  // Look up the sender's history so the reply can refer to past orders and quotes
+  if (senderEmail && !toolCalls.some(call => call.tool === 'customer-history')) {
+    const historyCall: ToolCall = {
+      tool: 'customer-history',
+      parameters: { email: senderEmail },
+    };
+    const [historyResult] = await executeToolCalls([historyCall], toolTimer.onEvent, false, scope);
+    toolCalls.push(historyCall);
+    toolResults.push(historyResult);
+  }
+
+  // Detect every intent so the reply can address each one
+  const intents = detectIntents(message, toolCalls);
+
+  // Ask for missing details instead of guessing when a quote is underspecified
+  let clarification: QuoteClarification | undefined;
+  const quoteIntent = intents.find(i => i.category === 'quote_request');
+
+  if (
+    quoteIntent &&
+    needsQuoteClarification(message, toolCalls, toolResults, activeQuote?.status === 'pending_customer_input')
+  ) {
+    let requirements = extractQuoteRequirements(
+      message,
+      toolCalls,
+      emailContext?.detected?.productNames
+    );
+    if (activeQuote?.status === 'pending_customer_input') {
+      requirements = mergeRequirements(activeQuote.requirements, requirements);
+    }
+    const missingFields = findMissingQuoteFields(requirements);
+
+    if (missingFields.length > 0) {
+      // Look up candidate products so we can offer their real container options
+      if (!toolCalls.some(call => call.tool === 'product-search')) {
+        const searchCall: ToolCall = {
+          tool: 'product-search',
+          parameters: { query: requirements.product || message, limit: 3 },
+        };
+        const [searchResult] = await executeToolCalls([searchCall], toolTimer.onEvent);
+        toolCalls.push(searchCall);
+        toolResults.push(searchResult);
+      }
+      if (quoteIntent.tools.indexOf('product-search') === -1) {
+        quoteIntent.tools.push('product-search');
+      }
+
+      clarification = {
+        requirements,
+        missing_fields: missingFields,
+        candidates: collectCandidates(toolResults),
+      };
+      if (!dryRun) {
+        clarification.quote_number = await recordPendingQuote(clarification, {
+          email: scope.customer_email,
+          name: scope.customer_name,
+          email_id: context?.email_id,
+        }, activeQuote?.status === 'pending_customer_input' ? activeQuote.quote_number : undefined);
+      }
+    }
+  }
+
+  // Generate natural language response with email context
+  let response = await generateResponse(message, toolResults, intents, context, emailContext, { onEvent, clarification, dryRun });
+
+  if (dryRun) {
+    const trace = buildTrace({
+      traceId,
+      message,
+      dryRun,
+      emailId: context?.email_id,
+      conversationId,
+      routing,
+      intents,
+      toolCalls,
+      toolResults,
+      toolDurations: toolTimer.durations,
+      response,
+      modelParams: getModelParams(),
+      startTime,
+    });
+    await saveTrace(trace);
+
+    return {
+      success: true,
+      message: '',
+      tools_used: toolCalls.map(t => t.tool),
+      intents: intents.map(i => i.category),
+      confidence: 0,
+      guard: { passed: true, violations: [], regenerations: 0 },
+      policy: { passed: true, checked: 0, violations: [] },
+      auto_approvable: false,
+      attachments: collectAttachments(toolResults),
+      metadata: {
+        timestamp: new Date().toISOString(),
+        cached: false,
+        trace_id: trace.trace_id,
+        routing,
+        tool_steps: toolCalls.length,
+        sections: response.sections,
+      },
+      trace,
+    };
+  }
+
+  // Check every price, SKU, CAS, order and tracking number against the tool data
+  const sourceText = (draft: typeof response) => draft.prompts.map(p => `${p.system}\n${p.user}`).join('\n');
+  const policyText = (draft: typeof response) => draft.prompts.map(p => p.system).join('\n');
+  let guard = verifyDraft(response.text, toolResults, sourceText(response), policyText(response));
+  let regenerations = 0;
+
+  // Tokens already streamed can't be taken back, so only regenerate non-streaming drafts
+  while (!guard.passed && !onEvent && regenerations < MAX_GUARD_REGENERATIONS) {
+    regenerations++;
+    console.warn(`Draft failed guard (${guard.violations.length} violations), regenerating`);
+    response = await generateResponse(message, toolResults, intents, context, emailContext, {
+      correction: buildCorrection(guard),
+      clarification,
+    });
+    guard = verifyDraft(response.text, toolResults, sourceText(response), policyText(response));
+  }
+
+  // Check the final draft against the outbound content policy
+  const policy = await enforcePolicy(response.text, toolResults, intents);
+  if (!policy.passed) {
+    console.warn(`Draft broke content policy: ${policy.violations.map(v => v.rule_key).join(', ')}`);
+  }
+
+  const trace = buildTrace({
+    traceId,
+    message,
+    dryRun,
+    emailId: context?.email_id,
+    conversationId,
+    routing,
+    intents,
+    toolCalls,
+    toolResults,
+    toolDurations: toolTimer.durations,
+    response,
+    modelParams: getModelParams(),
+    guard,
+    startTime,
+  });
+  await saveTrace(trace);
+
+  const confidence = await scoreConfidence({ intents, routing, toolResults, guard });
+
+  // Record the turn and carry the active quote forward
+  let sessionInfo: AgentResponse['metadata']['session'];
+  if (session) {
+    const state = nextSessionState(session.state, toolResults, clarification);
+    const turn = await saveTurn(session, {
+      message_id: context?.email_id,
+      inbound_message: message,
+      tool_calls: toolCalls,
+      tool_results: toolResults,
+      draft_response: response.text,
+    }, state);
+    sessionInfo = {
+      conversation_id: session.conversation_id,
+      turn: turn || session.turns.length + 1,
+      active_quote: state.active_quote?.quote_number,
+    };
+  }
+
+  const unavailableData = describeUnavailableData(toolResults);
+  if (unavailableData.length > 0) {
+    console.warn(`Drafted without: ${unavailableData.join(', ')}`);
+  }
+
+  // Build final response
+  const finalResponse: AgentResponse = {
+    success: true,
+    message: response.text,
+    tools_used: toolCalls.map(t => t.tool),
+    intents: intents.map(i => i.category),
+    confidence: confidence.score,
+    guard: {
+      passed: guard.passed,
+      violations: guard.violations,
+      regenerations,
+    },
+    policy,
+    auto_approvable: guard.passed && policy.passed,
+    attachments: collectAttachments(toolResults),
+    metadata: {
+      timestamp: new Date().toISOString(),
+      cached: false,
+      trace_id: trace.trace_id,
+      routing,
+      tool_steps: toolCalls.length,
+      confidence_signals: confidence.signals,
+      sections: response.sections,
+      unavailable_data: unavailableData.length > 0 ? unavailableData : undefined,
+      session: sessionInfo,
+      clarification: clarification && {
+        status: 'pending_customer_input',
+        missing_fields: clarification.missing_fields,
+        quote_number: clarification.quote_number,
+      },
+    },
+  };
+
+  // Cache generic answers only - never anything about this customer's orders
+  if (cacheKey && isCacheable(finalResponse, toolResults, context, emailContext)) {
+    await storeCachedResponse(cacheKey, finalResponse)
+      .catch(error => console.error('Failed to cache response:', error));
+  }
+
+  // Log the interaction for analytics
+  const client = new Client({
+    connectionString: process.env.DATABASE_URL,
+  });
+
+  try {
+    await client.connect();
+    await client.query(
+      `INSERT INTO alliance_search_logs (
+        query_text, 
+        result_count, 
+        filters,
+        created_at
+      ) VALUES ($1, $2, $3, NOW())`,
+      [
+        message,
+        toolResults.filter(r => !r.error).length,
+        JSON.stringify({ tools: toolCalls }),
+      ]
+    );
+  } catch (logError) {
+    console.error('Failed to log interaction:', logError);
+  } finally {
+    await client.end();
+  }
+
+  return finalResponse;
+}
@@ -0,0 +1,331 @@
+import type { DocumentType, QuoteShippingAddress, ToolCall } from '@/lib/tools';
+
+export type IntentCategory = 'order_status' | 'quote_request' | 'product_inquiry' | 'document_request' | 'general';
+
+export interface AgentIntent {
+  category: IntentCategory;
+  // Tools whose results belong to this intent
+  tools: string[];
+}
+
+// Section order in a multi-intent reply
+const INTENT_ORDER: IntentCategory[] = ['order_status', 'quote_request', 'product_inquiry', 'document_request'];
+
+export const INTENT_LABELS: Record<IntentCategory, string> = {
+  order_status: 'Order Status',
+  quote_request: 'Quote & Pricing',
+  product_inquiry: 'Product Information',
+  document_request: 'Documents',
+  general: 'General',
+};
+
+// Which intent a tool's result answers
+const TOOL_CATEGORIES: Record<string, IntentCategory> = {
+  'order-status': 'order_status',
+  'quote': 'quote_request',
+  'pricing': 'quote_request',
+  'product-search': 'product_inquiry',
+  'documents': 'document_request',
+  'spec-lookup': 'product_inquiry',
+  'substitutes': 'product_inquiry',
+};
+
+// Order tracking patterns
+const ORDER_PATTERNS = [
+  /order\s*#?\s*(\d+)/i,
+  /where.*my.*order/i,
+  /track.*order/i,
+  /shipping.*status/i,
+  /when.*arrive/i,
+  /delivery.*date/i,
+];
+
+// Quote/pricing patterns
+const QUOTE_PATTERNS = [
+  /quote.*for/i,
+  /price.*(?:of|for)/i,
+  /how much.*cost/i,
+  /pricing.*information/i,
+  /need.*quote/i,
+  /bulk.*pricing/i,
+];
+
+// Product search patterns
+const PRODUCT_PATTERNS = [
+  /looking for/i,
+  /do you (?:have|sell|carry)/i,
+  /need.*(?:gallon|drum|tote|pound|kg)/i,
+  /what.*products/i,
+];
+
+// Alternative / substitute product patterns
+const SUBSTITUTE_PATTERNS = [
+  /alternative.*to/i,
+  /substitute.*for/i,
+  /replacement.*for/i,
+];
+
+// "alternative to your 99% IPA?" - the product named after the phrase
+const SUBSTITUTE_PRODUCT_PATTERN = /(?:alternatives?|substitutes?|replacements?)\s+(?:to|for)\s+(?:your\s+|the\s+|a\s+)?([a-z0-9][a-z0-9 %.()-]*?)(?=\s*(?:[?.!,;\n]|$|\s(?:that|which|since|because|in|if)\b))/i;
+
+const ZIP_PATTERNS = [
+  /\b(?:zip(?:\s*code)?|postal\s*code)\s*:?\s*(\d{5})(?:-\d{4})?\b/i,
+  /\b[A-Z]{2}\s+(\d{5})(?:-\d{4})?\b/,
+  /\bship(?:ping|ped)?\s+to\b[^\n]{0,40}?\b(\d{5})(?:-\d{4})?\b/i,
+];
+
+const RESIDENTIAL_PATTERN = /\bresidential\b|\b(?:my|a) (?:home|house|residence)\b/i;
+const LIFTGATE_PATTERN = /\blift\s*gate\b|\bno (?:loading )?dock\b/i;
+const PO_BOX_PATTERN = /\bp\.?\s*o\.?\s*box\b|\bpost\s+office\s+box\b/i;
+
+const CAS_NUMBER_PATTERN = /\b(\d{2,7}-\d{2}-\d)\b/;
+
+// Technical spec question patterns
+const SPEC_PATTERNS = [
+  /flash\s*point/i,
+  /(?:boiling|melting|freezing) point/i,
+  /\bpurity\b|\bassay\b|how pure/i,
+  /\bgrade\b/i,
+  /specific gravity|\bdensity\b|viscosity/i,
+  /\bph\b/i,
+  /\bsolub(?:le|ility)\b|miscible/i,
+  /shelf life/i,
+  /molecular weight/i,
+];
+
+// SDS / COA / tech data sheet patterns
+const DOCUMENT_TYPE_PATTERNS: Record<DocumentType, RegExp[]> = {
+  sds: [/\bm?sds\b/i, /safety data sheet/i],
+  coa: [/\bc\.?o\.?a\b/i, /certificate of analysis/i],
+  tds: [/\btds\b/i, /tech(?:nical)? data sheet/i, /spec(?:ification)? sheet/i],
+};
+
+const DOCUMENT_PATTERNS = DOCUMENT_TYPE_PATTERNS.sds
+  .concat(DOCUMENT_TYPE_PATTERNS.coa, DOCUMENT_TYPE_PATTERNS.tds);
+
+// "lot 24-1187", "lot #A2309" - lot numbers contain a digit
+const LOT_NUMBER_PATTERN = /\blot\s*(?:#|no\.?|number)?\s*:?\s*([A-Z0-9-]*\d[A-Z0-9-]*)/i;
+
+const CATEGORY_PATTERNS: Record<string, RegExp[]> = {
+  order_status: ORDER_PATTERNS,
+  quote_request: QUOTE_PATTERNS,
+  product_inquiry: PRODUCT_PATTERNS.concat(SPEC_PATTERNS, SUBSTITUTE_PATTERNS),
+  document_request: DOCUMENT_PATTERNS,
+};
+
+/**
+ * Detect intent from the message and route to appropriate tools.
+ * Used as the fallback router when the model is unavailable.
+ */
+export async function detectIntentAndRoute(message: string): Promise<ToolCall[]> {
+  const toolCalls: ToolCall[] = [];
+
+  // Check for order tracking
+  if (ORDER_PATTERNS.some(pattern => pattern.test(message))) {
+    const orderMatch = message.match(/\b(\d{4,})\b/);
+    if (orderMatch) {
+      toolCalls.push({
+        tool: 'order-status',
+        parameters: { order_number: orderMatch[1] },
+      });
+    }
+  }
+
+  // Check for quote requests
+  if (QUOTE_PATTERNS.some(pattern => pattern.test(message))) {
+    // Extract product mentions and quantities
+    const products = extractProductsFromMessage(message);
+    if (products.length > 0) {
+      toolCalls.push({
+        tool: 'quote',
+        parameters: {
+          items: products,
+          ...extractShippingDetails(message),
+        },
+      });
+    } else {
+      // Need to search for products first
+      toolCalls.push({
+        tool: 'product-search',
+        parameters: { query: message },
+      });
+    }
+  }
+
+  // Check for product searches - a message can ask about products alongside other intents
+  const hasProductSearch = toolCalls.some(call => call.tool === 'product-search');
+  if (PRODUCT_PATTERNS.some(pattern => pattern.test(message)) && !hasProductSearch) {
+    toolCalls.push({
+      tool: 'product-search',
+      parameters: {
+        query: message,
+        limit: 5,
+      },
+    });
+  }
+
+  // Check for alternatives - the planner resolves the product when it isn't named plainly
+  if (SUBSTITUTE_PATTERNS.some(pattern => pattern.test(message))) {
+    const casMatch = message.match(CAS_NUMBER_PATTERN);
+    const productMatch = message.match(SUBSTITUTE_PRODUCT_PATTERN);
+    const productName = productMatch && !/^(it|this|that|them|these|those|one)$/i.test(productMatch[1].trim())
+      ? productMatch[1].trim()
+      : undefined;
+    toolCalls.push({
+      tool: 'substitutes',
+      parameters: {
+        query: message,
+        cas_number: casMatch ? casMatch[1] : undefined,
+        product_name: casMatch ? undefined : productName,
+      },
+    });
+  }
+
+  // Check for technical questions - the planner resolves the product from the question
+  if (SPEC_PATTERNS.some(pattern => pattern.test(message))) {
+    toolCalls.push({
+      tool: 'spec-lookup',
+      parameters: { question: message },
+    });
+  }
+
+  // Check for document requests - the planner resolves the product from the query
+  if (DOCUMENT_PATTERNS.some(pattern => pattern.test(message))) {
+    toolCalls.push({
+      tool: 'documents',
+      parameters: {
+        query: message,
+        ...extractDocumentRequest(message),
+      },
+    });
+  }
+
+  // No specific intent: no tools - detectIntents treats it as general
+  return toolCalls;
+}
+
+/**
+ * The ship-to ZIP code in a message, if given
+ */
+export function extractShipToZip(message: string): string | undefined {
+  for (const pattern of ZIP_PATTERNS) {
+    const zipMatch = message.match(pattern);
+    if (zipMatch) {
+      return zipMatch[1];
+    }
+  }
+  return undefined;
+}
+
+/**
+ * The ship-to address details and delivery needs a message gives, if any
+ */
+export function extractShippingDetails(message: string): { shipping_address?: QuoteShippingAddress; liftgate?: boolean } {
+  const zip = extractShipToZip(message);
+  const residential = RESIDENTIAL_PATTERN.test(message);
+  const poBox = PO_BOX_PATTERN.test(message);
+
+  return {
+    shipping_address: zip || residential || poBox
+      ? { zip, residential: residential || undefined, po_box: poBox || undefined }
+      : undefined,
+    liftgate: LIFTGATE_PATTERN.test(message) || undefined,
+  };
+}
+
+/**
+ * Extract the requested document types and lot number from a message
+ */
+export function extractDocumentRequest(message: string): { document_types: DocumentType[]; lot_number?: string } {
+  const documentTypes = (Object.keys(DOCUMENT_TYPE_PATTERNS) as DocumentType[])
+    .filter(type => DOCUMENT_TYPE_PATTERNS[type].some(pattern => pattern.test(message)));
+  const lotMatch = message.match(LOT_NUMBER_PATTERN);
+
+  return {
+    document_types: documentTypes,
+    lot_number: lotMatch ? lotMatch[1] : undefined,
+  };
+}
+
+/**
+ * Extract product mentions from message
+ */
+export function extractProductsFromMessage(message: string): any[] {
+  const products = [];
+
+  // Common chemical patterns
+  const chemicalPatterns = [
+    /(\d+)\s*(?:gallons?|gal)\s+(?:of\s+)?([a-z\s]+)/gi,
+    /(\d+)\s*(?:drums?)\s+(?:of\s+)?([a-z\s]+)/gi,
+    /(\d+)\s*(?:totes?)\s+(?:of\s+)?([a-z\s]+)/gi,
+    /(\d+)\s*x\s*(\d+)\s*(?:gallon|gal|drum|tote)\s+([a-z\s]+)/gi,
+  ];
+
+  for (const pattern of chemicalPatterns) {
+    let match;
+    while ((match = pattern.exec(message)) !== null) {
+      const quantity = parseInt(match[1]);
+      const productName = match[match.length - 1].trim();
+
+      products.push({
+        product_name: productName,
+        quantity: quantity || 1,
+        container_size: match[0].includes('drum') ? '55 Gallon' :
+                       match[0].includes('tote') ? '275 Gallon' :
+                       '5 Gallon',
+      });
+    }
+  }
+
+  return products;
+}
+
+/**
+ * Detect every intent in a message, combining the message patterns
+ * with the tools that were actually run. Each intent gets the tools
+ * whose results answer it, so the reply can have one section per intent.
+ */
+export function detectIntents(message: string, toolCalls: ToolCall[]): AgentIntent[] {
+  const detected: Record<string, boolean> = {};
+
+  INTENT_ORDER.forEach(category => {
+    if (CATEGORY_PATTERNS[category].some(pattern => pattern.test(message))) {
+      detected[category] = true;
+    }
+  });
+
+  const toolsByCategory: Record<string, string[]> = {};
+
+  toolCalls.forEach(call => {
+    let category = TOOL_CATEGORIES[call.tool];
+    if (!category) return;
+
+    // A search run to resolve products for a quote or documents belongs to that section
+    if (category === 'product_inquiry' && !detected.product_inquiry) {
+      if (detected.quote_request) {
+        category = 'quote_request';
+      } else if (detected.document_request) {
+        category = 'document_request';
+      }
+    }
+
+    detected[category] = true;
+    toolsByCategory[category] = toolsByCategory[category] || [];
+    if (toolsByCategory[category].indexOf(call.tool) === -1) {
+      toolsByCategory[category].push(call.tool);
+    }
+  });
+
+  const intents: AgentIntent[] = INTENT_ORDER
+    .filter(category => detected[category])
+    .map(category => ({
+      category,
+      tools: toolsByCategory[category] || [],
+    }));
+
+  if (intents.length === 0) {
+    return [{ category: 'general', tools: toolCalls.map(call => call.tool) }];
+  }
+
+  return intents;
+}
@@ -0,0 +1,267 @@
+import { pool } from '@/lib/db';
+import { aiCache, CacheService } from '@/lib/cache';
+import type { ToolResult } from '@/lib/tools';
+import type { AgentIntent } from './intents';
+
+export type PolicyRuleType = 'max_discount' | 'forbidden_phrase' | 'required_phrase';
+
+const RULE_TYPES: PolicyRuleType[] = ['max_discount', 'forbidden_phrase', 'required_phrase'];
+
+export interface PolicyRule {
+  id: number;
+  rule_key: string;
+  description: string;
+  rule_type: PolicyRuleType;
+  config: {
+    max_percent?: number;
+    patterns?: string[];
+    when_fields?: string[];
+  };
+  severity: 'block' | 'warn';
+  // Intents the rule applies to; empty means every draft
+  intents: string[];
+}
+
+export interface PolicyViolation {
+  rule_key: string;
+  rule_type: PolicyRuleType | 'unavailable';
+  severity: 'block' | 'warn';
+  description: string;
+  // The offending text, when there is one
+  excerpt?: string;
+}
+
+export interface PolicyResult {
+  // False when a blocking rule was violated
+  passed: boolean;
+  checked: number;
+  violations: PolicyViolation[];
+}
+
+const RULES_CACHE_KEY = CacheService.createKey('content-policy-rules');
+
+// "15% off", "15 percent discount", "discount of 15%"
+const DISCOUNT_PATTERNS = [
+  /(\d+(?:\.\d+)?)\s*(?:%|percent)\s*(?:off|discount|reduction|savings?)/gi,
+  /(?:discount|reduction|savings?|off)\s+(?:of\s+)?(?:up to\s+)?(\d+(?:\.\d+)?)\s*(?:%|percent)/gi,
+];
+
+/**
+ * Active policy rules, cached for 5 minutes
+ */
+export async function loadPolicyRules(): Promise<PolicyRule[]> {
+  return aiCache.getOrSet(
+    RULES_CACHE_KEY,
+    async () => {
+      const result = await pool.query(
+        `SELECT id, rule_key, description, rule_type, config, severity, intents
+         FROM content_policy_rules
+         WHERE is_active = true
+         ORDER BY rule_key`
+      );
+      return result.rows;
+    },
+    { ttl: 300 }
+  );
+}
+
+/**
+ * Drop the cached rules so admin edits apply to the next draft
+ */
+export async function invalidatePolicyRules(): Promise<void> {
+  await aiCache.delete(RULES_CACHE_KEY);
+}
+
+/**
+ * Check a rule's config has what its type needs and that its patterns
+ * compile. Returns the problem, or null when the rule is valid.
+ */
+export function validatePolicyRule(ruleType: string, config: any): string | null {
+  if (RULE_TYPES.indexOf(ruleType as PolicyRuleType) === -1) {
+    return `rule_type must be one of ${RULE_TYPES.join(', ')}`;
+  }
+
+  if (ruleType === 'max_discount') {
+    return typeof config?.max_percent === 'number' ? null : 'max_discount rules need config.max_percent';
+  }
+
+  if (!Array.isArray(config?.patterns) || config.patterns.length === 0) {
+    return `${ruleType} rules need config.patterns`;
+  }
+
+  const invalid = config.patterns.filter((pattern: string) => {
+    try {
+      new RegExp(pattern, 'gi');
+      return false;
+    } catch (error) {
+      return true;
+    }
+  });
+
+  return invalid.length > 0 ? `Invalid pattern: ${invalid.join(', ')}` : null;
+}
+
+/**
+ * The sentence around a match, for showing the reviewer
+ */
+function excerptAround(text: string, index: number, length: number): string {
+  const start = Math.max(0, text.lastIndexOf('.', index) + 1, text.lastIndexOf('\n', index) + 1);
+  let end = text.length;
+  ['.', '\n'].forEach(stop => {
+    const at = text.indexOf(stop, index + length);
+    if (at !== -1 && at < end) end = at + (stop === '.' ? 1 : 0);
+  });
+  return text.substring(start, end).trim();
+}
+
+function compile(pattern: string, rule: PolicyRule): RegExp | null {
+  try {
+    return new RegExp(pattern, 'gi');
+  } catch (error) {
+    console.error(`Invalid pattern in policy rule ${rule.rule_key}:`, error);
+    return null;
+  }
+}
+
+/**
+ * Whether any tool result has one of the fields set (non-null, non-zero)
+ */
+function toolDataHasField(toolResults: ToolResult[], fields: string[]): boolean {
+  let found = false;
+
+  const walk = (value: any) => {
+    if (found || value === null || typeof value !== 'object') return;
+    if (Array.isArray(value)) {
+      value.forEach(walk);
+      return;
+    }
+    Object.keys(value).forEach(key => {
+      const field = value[key];
+      if (fields.indexOf(key) !== -1 && field !== null && field !== undefined && field !== 0 && field !== false) {
+        found = true;
+      }
+      walk(field);
+    });
+  };
+
+  toolResults.forEach(result => walk(result.data));
+  return found;
+}
+
+function checkRule(rule: PolicyRule, draft: string, toolResults: ToolResult[]): PolicyViolation[] {
+  const violation = (excerpt?: string): PolicyViolation => ({
+    rule_key: rule.rule_key,
+    rule_type: rule.rule_type,
+    severity: rule.severity,
+    description: rule.description,
+    excerpt,
+  });
+
+  switch (rule.rule_type) {
+    case 'max_discount': {
+      const max = rule.config.max_percent ?? 0;
+      const violations: PolicyViolation[] = [];
+      DISCOUNT_PATTERNS.forEach(pattern => {
+        const regex = new RegExp(pattern.source, pattern.flags);
+        let match;
+        while ((match = regex.exec(draft)) !== null) {
+          if (parseFloat(match[1]) > max) {
+            violations.push(violation(excerptAround(draft, match.index, match[0].length)));
+          }
+        }
+      });
+      return violations;
+    }
+
+    case 'forbidden_phrase': {
+      const violations: PolicyViolation[] = [];
+      (rule.config.patterns || []).forEach(pattern => {
+        const regex = compile(pattern, rule);
+        let match;
+        while (regex && (match = regex.exec(draft)) !== null) {
+          violations.push(violation(excerptAround(draft, match.index, match[0].length)));
+        }
+      });
+      return violations;
+    }
+
+    case 'required_phrase': {
+      const fields = rule.config.when_fields || [];
+      if (fields.length > 0 && !toolDataHasField(toolResults, fields)) {
+        return [];
+      }
+      const present = (rule.config.patterns || []).some(pattern => {
+        const regex = compile(pattern, rule);
+        return !!regex && regex.test(draft);
+      });
+      return present ? [] : [violation()];
+    }
+
+    default:
+      console.warn(`Unknown policy rule type ${rule.rule_type} (${rule.rule_key})`);
+      return [];
+  }
+}
+
+/**
+ * Check a draft against the content policy. Rules scoped to intents
+ * only apply when one of those intents was detected.
+ */
+export function checkPolicy(
+  draft: string,
+  toolResults: ToolResult[],
+  intents: AgentIntent[],
+  rules: PolicyRule[]
+): PolicyResult {
+  const categories: string[] = intents.map(intent => intent.category);
+  const applicable = rules.filter(rule =>
+    !rule.intents || rule.intents.length === 0 || rule.intents.some(intent => categories.indexOf(intent) !== -1)
+  );
+
+  // Report each excerpt once per rule
+  const seen: Record<string, boolean> = {};
+  const violations: PolicyViolation[] = [];
+  applicable.forEach(rule => {
+    checkRule(rule, draft, toolResults).forEach(v => {
+      const key = `${v.rule_key}:${v.excerpt || ''}`;
+      if (seen[key]) return;
+      seen[key] = true;
+      violations.push(v);
+    });
+  });
+
+  return {
+    passed: !violations.some(v => v.severity === 'block'),
+    checked: applicable.length,
+    violations,
+  };
+}
+
+/**
+ * Load the rules and check a draft. If the rules can't be loaded the
+ * draft fails, so it is never auto-approved unchecked.
+ */
+export async function enforcePolicy(
+  draft: string,
+  toolResults: ToolResult[],
+  intents: AgentIntent[]
+): Promise<PolicyResult> {
+  let rules: PolicyRule[];
+  try {
+    rules = await loadPolicyRules();
+  } catch (error) {
+    console.error('Failed to load content policy rules:', error);
+    return {
+      passed: false,
+      checked: 0,
+      violations: [{
+        rule_key: 'policy_unavailable',
+        rule_type: 'unavailable',
+        severity: 'block',
+        description: 'Content policy rules could not be loaded - review the draft manually',
+      }],
+    };
+  }
+
+  return checkPolicy(draft, toolResults, intents, rules);
+}
@@ -0,0 +1,237 @@
+import { createHash } from 'crypto';
+import { pool } from '@/lib/db';
+import { EMBEDDING_DIMENSIONS, getLLMProvider } from '@/lib/llm';
+import { getCalendarContext } from '@/lib/business-calendar';
+import type { ToolResult } from '@/lib/tools';
+import { ORDER_PATTERN, TRACKING_PATTERNS } from './guard';
+import type { AgentRequest, AgentResponse } from './types';
+
+// Cosine similarity a cached question needs to count as the same question
+const SIMILARITY_THRESHOLD = parseFloat(process.env.RESPONSE_CACHE_SIMILARITY || '0.95');
+const CACHE_TTL_SECONDS = parseInt(process.env.RESPONSE_CACHE_TTL || '3600');
+
+// Tools whose results are about this customer's orders and quotes
+const PERSONAL_TOOLS = ['order-status', 'quote'];
+
+const EMAIL_PATTERN = /[a-z0-9._%+-]+@[a-z0-9.-]+\.[a-z]{2,}/i;
+const PHONE_PATTERN = /\(?\b\d{3}\)?[\s.-]?\d{3}[\s.-]?\d{4}\b/;
+const QUOTE_NUMBER_PATTERN = /\bquote\s*(?:number|no\.?|#)\s*:?\s*[A-Z0-9-]+/i;
+
+const GREETING_PATTERN = /^(hi|hello|hey|dear|good (morning|afternoon|evening))\b/i;
+const LEADING_GREETING_PATTERN = /^(hi|hello|hey|dear)(\s+\w+)?\s*,\s*/i;
+const SIGN_OFF_PATTERN = /^(thanks|thank you|regards|best|cheers|sincerely|sent from)\b[^a-z]*(\w+\s*){0,3}$/i;
+
+export interface SemanticCacheKey {
+  normalized: string;
+  fingerprint: string;
+  embedding: number[];
+}
+
+export interface CacheHit {
+  response: AgentResponse;
+  similarity: number;
+}
+
+/**
+ * Reduce an email to the question: lowercase, without greetings,
+ * sign-offs, quoted replies and punctuation
+ */
+export function normalizeQuestion(message: string): string {
+  let lines = message
+    .split('\n')
+    .map(line => line.trim())
+    .filter(line => line && line.indexOf('>') !== 0);
+
+  // Drop everything from the first sign-off line down
+  const signOff = lines.findIndex(line => SIGN_OFF_PATTERN.test(line));
+  if (signOff > 0) {
+    lines = lines.slice(0, signOff);
+  }
+
+  // "Hi team," on its own line, or leading the first line
+  if (lines.length > 1 && GREETING_PATTERN.test(lines[0]) && lines[0].split(/\s+/).length <= 4) {
+    lines = lines.slice(1);
+  } else if (lines.length > 0) {
+    lines[0] = lines[0].replace(LEADING_GREETING_PATTERN, '');
+  }
+
+  return lines
+    .join(' ')
+    .toLowerCase()
+    .replace(/[^a-z0-9%$.\s-]/g, ' ')
+    .replace(/\s+/g, ' ')
+    .trim();
+}
+
+/**
+ * Hash of what besides the question shapes the reply: who is asking,
+ * how the email was classified and the business day (replies quote
+ * concrete dates). Entries only match within the same fingerprint.
+ */
+export function contextFingerprint(
+  context?: AgentRequest['context'],
+  emailContext?: AgentRequest['emailContext']
+): string {
+  const calendar = getCalendarContext();
+  const parts = [
+    (emailContext?.sender?.email || context?.customer_email || 'anonymous').toLowerCase(),
+    context?.classification || '',
+    calendar.ship_date,
+    calendar.is_business_hours ? 'open' : 'closed',
+  ];
+
+  return createHash('sha256').update(parts.join('|')).digest('hex');
+}
+
+/**
+ * Whether a draft mentions anything specific to this customer or
+ * their orders: names, contact details, order, tracking or quote numbers
+ */
+export function containsPersonalData(
+  text: string,
+  context?: AgentRequest['context'],
+  emailContext?: AgentRequest['emailContext']
+): boolean {
+  const patterns = [EMAIL_PATTERN, PHONE_PATTERN, QUOTE_NUMBER_PATTERN, ORDER_PATTERN].concat(TRACKING_PATTERNS);
+  if (patterns.some(pattern => new RegExp(pattern.source, pattern.flags.replace('g', '')).test(text))) {
+    return true;
+  }
+
+  const name = emailContext?.sender?.name || context?.customer_name || '';
+  return name
+    .split(/[\s._-]+/)
+    .map(part => part.replace(/[^a-z0-9]/gi, ''))
+    .filter(part => part.length > 2)
+    .some(part => new RegExp(`\\b${part}\\b`, 'i').test(text));
+}
+
+/**
+ * Only generic answers are cached: nothing built from this customer's
+ * orders, quotes or history, and nothing that failed a check
+ */
+export function isCacheable(
+  response: AgentResponse,
+  toolResults: ToolResult[],
+  context?: AgentRequest['context'],
+  emailContext?: AgentRequest['emailContext']
+): boolean {
+  if (!response.success || !response.guard.passed || !response.policy.passed || response.metadata.clarification) {
+    return false;
+  }
+
+  // Personal data, or a reply written around data we couldn't fetch
+  const excluded = toolResults.some(result =>
+    result.unavailable ||
+    PERSONAL_TOOLS.indexOf(result.tool) !== -1 ||
+    (result.tool === 'customer-history' && result.data?.found)
+  );
+  if (excluded) {
+    return false;
+  }
+
+  return !containsPersonalData(response.message, context, emailContext);
+}
+
+/**
+ * Normalize and embed the question for lookup and storage
+ */
+export async function buildCacheKey(
+  message: string,
+  context?: AgentRequest['context'],
+  emailContext?: AgentRequest['emailContext']
+): Promise<SemanticCacheKey | null> {
+  const normalized = normalizeQuestion(message);
+  if (!normalized) {
+    return null;
+  }
+
+  return {
+    normalized,
+    fingerprint: contextFingerprint(context, emailContext),
+    embedding: await getLLMProvider().embed(normalized, EMBEDDING_DIMENSIONS),
+  };
+}
+
+/**
+ * Closest unexpired entry with the same fingerprint, if similar enough.
+ * Hits are counted. The cached draft is re-checked for personal data
+ * before it is served.
+ */
+export async function findCachedResponse(
+  key: SemanticCacheKey,
+  context?: AgentRequest['context'],
+  emailContext?: AgentRequest['emailContext']
+): Promise<CacheHit | null> {
+  const result = await pool.query(
+    `SELECT id, agent_response, 1 - (embedding <=> $1::vector) as similarity
+     FROM response_cache
+     WHERE fingerprint = $2
+       AND embedding IS NOT NULL
+       AND agent_response IS NOT NULL
+       AND (expires_at IS NULL OR expires_at > NOW())
+     ORDER BY embedding <=> $1::vector
+     LIMIT 1`,
+    [`[${key.embedding.join(',')}]`, key.fingerprint]
+  );
+
+  const row = result.rows[0];
+  if (!row || parseFloat(row.similarity) < SIMILARITY_THRESHOLD) {
+    return null;
+  }
+
+  const response: AgentResponse = row.agent_response;
+  // Attachments belong to the run that found them
+  if ((response.attachments || []).length > 0 || containsPersonalData(response.message, context, emailContext)) {
+    return null;
+  }
+
+  await pool.query(
+    `UPDATE response_cache
+     SET hit_count = hit_count + 1, last_accessed = NOW()
+     WHERE id = $1`,
+    [row.id]
+  );
+
+  return {
+    response,
+    similarity: Math.round(parseFloat(row.similarity) * 1000) / 1000,
+  };
+}
+
+/**
+ * Store a generic response for reuse
+ */
+export async function storeCachedResponse(
+  key: SemanticCacheKey,
+  response: AgentResponse
+): Promise<void> {
+  const cacheKey = createHash('sha256').update(`${key.fingerprint}|${key.normalized}`).digest('hex');
+
+  await pool.query(
+    `INSERT INTO response_cache (
+      cache_key,
+      query,
+      context,
+      response,
+      embedding,
+      fingerprint,
+      agent_response,
+      expires_at
+    ) VALUES ($1, $2, $3, $4, $5::vector, $6, $7, NOW() + ($8 || ' seconds')::interval)
+    ON CONFLICT (cache_key) DO UPDATE SET
+      response = EXCLUDED.response,
+      agent_response = EXCLUDED.agent_response,
+      expires_at = EXCLUDED.expires_at,
+      last_accessed = NOW()`,
+    [
+      cacheKey,
+      key.normalized,
+      JSON.stringify({ intents: response.intents, tools_used: response.tools_used }),
+      response.message,
+      `[${key.embedding.join(',')}]`,
+      key.fingerprint,
+      JSON.stringify(response),
+      CACHE_TTL_SECONDS,
+    ]
+  );
+}
@@ -0,0 +1,499 @@
+import { Client } from 'pg';
+import type { ToolResult } from '@/lib/tools';
+import { extractTemplateVariables, renderTemplate, resolveConditionals } from '@/lib/templates';
+import { factsForIntent, formatFacts, KnowledgeFact, loadCurrentFacts } from '@/lib/knowledge';
+import { formatCalendarPrompt, getCalendarContext } from '@/lib/business-calendar';
+import { getLLMProvider, runWithUsageTags } from '@/lib/llm';
+import { UpstreamUnavailableError } from '@/lib/resilience';
+import { AgentIntent, INTENT_LABELS, IntentCategory } from './intents';
+import { buildClarificationPrompt, QuoteClarification } from './clarify';
+import { buildTemplateVariables } from './template-variables';
+import type { AgentEventHandler, ModelParams, ResponseSection } from './types';
+
+export interface GeneratedResponse {
+  text: string;
+  sections: ResponseSection[];
+  // The prompts sent to the model, used to verify the draft afterwards
+  prompts: Array<{ system: string; user: string }>;
+}
+
+export interface GenerateOptions {
+  onEvent?: AgentEventHandler;
+  // Corrective instruction appended when regenerating a rejected draft
+  correction?: string;
+  // Missing quote details - the quote section asks for them instead of quoting
+  clarification?: QuoteClarification;
+  // Build the prompts without calling the model
+  dryRun?: boolean;
+}
+
+// Role and guidelines for every system prompt; company facts come from the knowledge base
+const COMPANY_SYSTEM_PROMPT = `You are a helpful customer service representative for Alliance Chemical.
+
+RESPONSE GUIDELINES:
+- Be professional yet friendly
+- Always offer to provide documentation (COA, SDS) when relevant
+- Include specific next steps or actions
+- For pricing inquiries, mention both retail and wholesale options
+- For shipping questions, use the carrier and cost from the shipping estimate in the data
+- Always include a clear call-to-action`;
+
+// Tools whose results every section sees, whatever the intent
+const SHARED_TOOLS = ['customer-history'];
+
+// What each tool looks up, for telling the customer what we couldn't retrieve
+const TOOL_DATA_LABELS: Record<string, string> = {
+  'order-status': 'order and tracking status',
+  'product-search': 'product details',
+  'pricing': 'current pricing',
+  'quote': 'the quote',
+  'customer-history': 'account history',
+  'documents': 'product documents',
+  'spec-lookup': 'product specifications',
+  'substitutes': 'alternative products',
+};
+
+const MULTI_INTENT_OPENING = "Thank you for contacting Alliance Chemical. I've addressed each of your questions below.\n\n";
+const MULTI_INTENT_CLOSING = 'Please let me know if there is anything else I can help with.\n\nBest regards,\nAlliance Chemical Team';
+
+const EMPTY_RESPONSE = 'I apologize, but I was unable to generate a response.';
+
+/**
+ * The data that couldn't be retrieved because an upstream was down
+ */
+export function describeUnavailableData(toolResults: ToolResult[]): string[] {
+  const labels: string[] = [];
+  toolResults
+    .filter(result => result.unavailable)
+    .forEach(result => {
+      const label = TOOL_DATA_LABELS[result.tool] || result.tool;
+      if (labels.indexOf(label) === -1) labels.push(label);
+    });
+  return labels;
+}
+
+/**
+ * Model parameters used for drafting replies
+ */
+export function getModelParams(): ModelParams {
+  return {
+    provider: getLLMProvider().name,
+    model: process.env.OPENAI_LLM_MODEL || 'gpt-4-turbo-preview',
+    temperature: 0.7,
+    max_tokens: 500,
+  };
+}
+
+/**
+ * Run one chat completion, streaming tokens to the event handler if given
+ */
+async function completeChat(
+  systemPrompt: string,
+  userPrompt: string,
+  onEvent?: AgentEventHandler
+): Promise<string> {
+  const { model, temperature, max_tokens } = getModelParams();
+
+  const completion = await getLLMProvider().chat({
+    model,
+    temperature,
+    max_tokens,
+    messages: [
+      {
+        role: 'system',
+        content: systemPrompt,
+      },
+      {
+        role: 'user',
+        content: userPrompt,
+      },
+    ],
+    onToken: onEvent
+      ? delta => onEvent({ type: 'token', content: delta })
+      : undefined,
+  });
+
+  return completion.content || EMPTY_RESPONSE;
+}
+
+/**
+ * Get the best active prompt template for a category
+ */
+async function loadTemplate(
+  client: Client,
+  category: IntentCategory
+): Promise<{ id: number; template_text: string; system_prompt: string | null; required_variables: string[] | null } | null> {
+  const templateResult = await client.query(
+    `SELECT id, template_text, system_prompt, required_variables 
+     FROM prompt_templates 
+     WHERE category = $1 AND is_active = true 
+     ORDER BY is_default DESC, success_rate DESC NULLS LAST 
+     LIMIT 1`,
+    [category]
+  );
+
+  return templateResult.rows[0] || null;
+}
+
+/**
+ * Render a stored template with the request's variables.
+ * Returns null as the prompt when a required variable has no value,
+ * so the built-in prompt is used instead of a half-filled template.
+ */
+function renderTemplatePrompt(
+  template: { template_text: string; required_variables: string[] | null },
+  variables: Record<string, any>
+): { prompt: string | null; missing: string[] } {
+  // Only the variables in the {{#if}} branches that apply can be missing
+  const missing = extractTemplateVariables(resolveConditionals(template.template_text, variables))
+    .filter(name => variables[name] === undefined);
+  const required = template.required_variables || [];
+
+  if (missing.some(name => required.indexOf(name) !== -1)) {
+    return { prompt: null, missing };
+  }
+
+  // Optional variables without a value render as empty text
+  const values: Record<string, any> = { ...variables };
+  missing.forEach(name => {
+    values[name] = '';
+  });
+
+  return { prompt: renderTemplate(template.template_text, values), missing };
+}
+
+/**
+ * The user prompt from a rendered stored template, with the tool data
+ * (unless the template already includes it) and the same instructions
+ * as the built-in prompt
+ */
+function buildTemplatedUserPrompt(
+  renderedPrompt: string,
+  templateText: string,
+  toolResults: ToolResult[],
+  context?: any,
+  emailContext?: any
+): string {
+  let prompt = renderedPrompt + '\n\n';
+  if (extractTemplateVariables(templateText).indexOf('tool_results') === -1) {
+    prompt += `Data retrieved:\n${JSON.stringify(toolResults, null, 2)}\n\n`;
+  }
+  return prompt + formatInstructions(buildInstructions(toolResults, context, emailContext));
+}
+
+/**
+ * Build the user prompt for one intent category
+ */
+function buildUserPrompt(
+  message: string,
+  toolResults: ToolResult[],
+  context?: any,
+  emailContext?: any
+): string {
+  // Build enhanced context with email-specific information
+  let enhancedPrompt = `Customer inquiry: ${message}\n\n`;
+  
+  // Add user-provided context if available
+  if (context?.user_provided_context) {
+    enhancedPrompt = `IMPORTANT CONTEXT FROM USER:\n${context.user_provided_context}\n\n${enhancedPrompt}`;
+  }
+  
+  // Add earlier turns of this conversation
+  if (context?.session_summary) {
+    enhancedPrompt += `${context.session_summary}\n`;
+  }
+  
+  // Add email context if available
+  if (emailContext) {
+    // Thread context
+    if (emailContext.thread?.isReply) {
+      enhancedPrompt += `📧 This is a reply in a thread of ${emailContext.thread.threadLength} messages\n`;
+      if (emailContext.thread.previousMessages?.length > 0) {
+        enhancedPrompt += 'Previous messages:\n';
+        emailContext.thread.previousMessages.forEach((msg: any) => {
+          enhancedPrompt += `  - [${msg.date}] ${msg.from}: ${msg.preview}\n`;
+        });
+      }
+    }
+    
+    // Detected information
+    if (emailContext.detected) {
+      if (emailContext.detected.productNames?.length > 0) {
+        enhancedPrompt += `\n📦 Products mentioned: ${emailContext.detected.productNames.join(', ')}\n`;
+      }
+      if (emailContext.detected.quantities?.length > 0) {
+        enhancedPrompt += `📊 Quantities: ${emailContext.detected.quantities.join(', ')}\n`;
+      }
+      if (emailContext.detected.orderNumbers?.length > 0) {
+        enhancedPrompt += `📋 Order numbers: ${emailContext.detected.orderNumbers.join(', ')}\n`;
+      }
+      if (emailContext.detected.urgency?.isUrgent) {
+        enhancedPrompt += `⚠️ URGENT: ${emailContext.detected.urgency.urgentPhrases.join(', ')}\n`;
+      }
+      if (emailContext.detected.sentiment) {
+        enhancedPrompt += `💬 Tone: ${emailContext.detected.sentiment.tone} (${emailContext.detected.sentiment.sentiment})\n`;
+      }
+    }
+    
+    // Sender information
+    if (emailContext.sender) {
+      enhancedPrompt += `\n👤 From: ${emailContext.sender.name || emailContext.sender.email}\n`;
+    }
+  }
+  
+  enhancedPrompt += `\nData retrieved:\n${JSON.stringify(toolResults, null, 2)}\n\n`;
+  
+  enhancedPrompt += formatInstructions(buildInstructions(toolResults, context, emailContext));
+  
+  return enhancedPrompt;
+}
+
+/**
+ * Instructions for the draft from the email context and tool data.
+ * Every section gets them, whether its prompt is built here or rendered
+ * from a stored template.
+ */
+function buildInstructions(
+  toolResults: ToolResult[],
+  context?: any,
+  emailContext?: any
+): string[] {
+  const instructions: string[] = [];
+  
+  // Prioritize user-provided context
+  if (context?.user_provided_context) {
+    instructions.push('CRITICAL: Pay special attention to the user-provided context above and incorporate it into your response');
+  }
+  
+  if (emailContext?.detected?.urgency?.isUrgent) {
+    instructions.push('Acknowledge the urgency and provide expedited options if available');
+  }
+  
+  if (emailContext?.detected?.sentiment?.sentiment === 'negative') {
+    instructions.push('Use an empathetic and apologetic tone to address their concerns');
+  }
+  
+  if (emailContext?.detected?.productNames?.length > 0) {
+    instructions.push('Reference the specific products they mentioned');
+  }
+  
+  if (emailContext?.detected?.quantities?.length > 0) {
+    instructions.push('Address the specific quantities requested');
+  }
+  
+  if (emailContext?.thread?.isReply) {
+    instructions.push('Reference the previous conversation context');
+  }
+  
+  if (toolResults.some(r => r.tool === 'customer-history' && r.data?.found)) {
+    instructions.push('Where it helps, refer to the customer\'s past orders or quotes (e.g. "same as your last order of 55 gal sulfuric acid") - only as they appear in the customer history data');
+  }
+  
+  const specResults = toolResults.filter(r => r.tool === 'spec-lookup' && !r.error);
+  if (specResults.some(r => r.data?.found)) {
+    instructions.push('Give spec values exactly as they appear in the spec-lookup answers or passages, and say where they come from (e.g. "per our product specifications")');
+  }
+  if (specResults.some(r => !r.data?.found)) {
+    instructions.push('Where spec-lookup found nothing, say the value isn\'t in our catalog data and offer to confirm it with our technical team - never estimate a spec');
+  }
+
+  const hasShippingEstimate = toolResults.some(r =>
+    (r.tool === 'quote' && r.data?.shipping) ||
+    (r.tool === 'pricing' && r.data?.results?.some((p: any) => p.shipping_estimate))
+  );
+  if (hasShippingEstimate) {
+    instructions.push('Present shipping as an estimate: give its total with the breakdown (carrier charge, fuel, hazmat, liftgate, residential) and mention any assumptions listed, such as a missing ZIP code');
+  }
+
+  const hasHazmatFindings = toolResults.some(r =>
+    (r.tool === 'quote' && r.data?.hazmat_compliance?.hazmat) ||
+    (r.tool === 'pricing' && r.data?.results?.some((p: any) => p.hazmat_compliance))
+  );
+  if (hasHazmatFindings) {
+    instructions.push('State the hazmat shipping constraints from hazmat_compliance: the allowed service modes, that it cannot ship by air, and any destination restriction (PO box, residence, Alaska/Hawaii) with what the customer needs to provide instead. Never offer a shipping option it does not allow');
+  }
+
+  const substituteResults = toolResults.filter(r => r.tool === 'substitutes' && !r.error);
+  if (substituteResults.some(r => r.data?.found)) {
+    instructions.push('Suggest only the alternatives listed in the substitutes data, each with its reason and in-stock sizes, and ask the customer to confirm the alternative suits their application');
+  } else if (substituteResults.length > 0) {
+    instructions.push('We found no in-stock alternative - say so and offer to have our team source one');
+  }
+
+  const documentResults = toolResults.filter(r => r.tool === 'documents' && !r.error);
+  if (documentResults.some(r => r.data?.found)) {
+    instructions.push('The documents listed under the documents data are attached to this reply - name each one (with its lot number for a COA) and include its link. Never offer a document that is not listed');
+  }
+  if (documentResults.some(r => !r.data?.found || r.data.products.some((p: any) => p.missing.length > 0))) {
+    instructions.push('For requested documents we don\'t have on file, say our team will follow up with them - don\'t promise a link');
+  }
+  
+  if (emailContext?.detected?.sentiment?.tone === 'formal') {
+    instructions.push('Use a professional, formal tone matching their communication style');
+  } else {
+    instructions.push('Use a friendly, conversational tone');
+  }
+  
+  return instructions;
+}
+
+/**
+ * The support case a complaint opened, for the draft to reference
+ */
+function buildCaseReference(context?: any): string {
+  if (!context?.case_number) {
+    return '';
+  }
+  const due = context.case_due ? ` and that they will hear back by ${context.case_due}` : '';
+  return `SUPPORT CASE: ${context.case_number}. Tell the customer their concern is logged as case ${context.case_number}${due}, ` +
+    'and ask them to reference the case number in replies.\n\n';
+}
+
+function formatInstructions(instructions: string[]): string {
+  return instructions.length > 0
+    ? 'Instructions:\n' + instructions.map(i => `- ${i}`).join('\n') + '\n\n'
+    : '';
+}
+
+/**
+ * Generate natural language response from tool results.
+ * Each detected intent gets its own section, written with that
+ * category's prompt template.
+ */
+export async function generateResponse(
+  message: string,
+  toolResults: ToolResult[],
+  intents: AgentIntent[],
+  context?: any,
+  emailContext?: any,
+  options: GenerateOptions = {}
+): Promise<GeneratedResponse> {
+  const { onEvent, correction, clarification, dryRun } = options;
+  // Get appropriate prompt templates from database
+  const client = new Client({
+    connectionString: process.env.DATABASE_URL,
+  });
+
+  const isMultiIntent = intents.length > 1;
+  const sections: ResponseSection[] = [];
+  const sectionTexts: string[] = [];
+  const prompts: GeneratedResponse['prompts'] = [];
+
+  try {
+    await client.connect();
+
+    const facts = await loadCurrentFacts().catch(error => {
+      console.error('Failed to load knowledge base facts:', error);
+      return [] as KnowledgeFact[];
+    });
+
+    // Concrete ship/quote dates and office status for this moment
+    const calendarBlock = formatCalendarPrompt(getCalendarContext());
+
+    for (const intent of intents) {
+      const template = await loadTemplate(client, intent.category);
+
+      // If we have a custom prompt, prepend it to our company context
+      let systemPrompt = template?.system_prompt
+        ? template.system_prompt + '\n\n' + COMPANY_SYSTEM_PROMPT
+        : COMPANY_SYSTEM_PROMPT;
+
+      // Only the facts relevant to this intent, as currently in effect
+      const factBlock = formatFacts(factsForIntent(facts, intent.category));
+      if (factBlock) {
+        systemPrompt += '\n\n' + factBlock;
+      }
+      systemPrompt += '\n\n' + calendarBlock;
+
+      // In a multi-intent reply each section only sees its own tool data
+      const sectionResults = isMultiIntent
+        ? toolResults.filter(r => intent.tools.indexOf(r.tool) !== -1 || SHARED_TOOLS.indexOf(r.tool) !== -1)
+        : toolResults;
+
+      const isClarifying = !!clarification && intent.category === 'quote_request';
+
+      // Admin-edited template text becomes the user prompt when it can be filled in
+      const rendered = template?.template_text && !isClarifying
+        ? renderTemplatePrompt(template, buildTemplateVariables(message, sectionResults, context, emailContext))
+        : null;
+
+      let userPrompt = isClarifying
+        ? buildClarificationPrompt(message, clarification!) + '\n\n'
+        : rendered?.prompt
+          ? buildTemplatedUserPrompt(rendered.prompt, template!.template_text, sectionResults, context, emailContext)
+          : buildUserPrompt(message, sectionResults, context, emailContext);
+
+      // Whatever the prompt source, the reply references the complaint's case (once)
+      if (sections.length === 0) {
+        userPrompt += buildCaseReference(context);
+      }
+
+      if (isMultiIntent) {
+        userPrompt += `This email contains several requests. Write ONLY the part of the reply that addresses: ${INTENT_LABELS[intent.category]}. ` +
+          'Do not include a greeting or sign-off - other sections cover the remaining requests. End the section with the next step for this topic.';
+      } else if (!isClarifying) {
+        userPrompt += 'Please provide a helpful, accurate response based on this data and context. End your response with a specific call-to-action or next step.';
+      }
+
+      const unavailable = describeUnavailableData(sectionResults);
+      if (unavailable.length > 0) {
+        userPrompt += `\n\nDATA UNAVAILABLE: ${unavailable.join(', ')} could not be retrieved right now. ` +
+          'Tell the customer which information we will follow up with shortly. Do not guess it.';
+      }
+
+      if (correction) {
+        userPrompt += `\n\nIMPORTANT CORRECTION: ${correction}`;
+      }
+
+      prompts.push({ system: systemPrompt, user: userPrompt });
+
+      if (isMultiIntent) {
+        const heading = `${sections.length === 0 ? MULTI_INTENT_OPENING : '\n\n'}**${INTENT_LABELS[intent.category]}**\n`;
+        onEvent?.({ type: 'token', content: heading });
+      }
+
+      const sectionText = dryRun
+        ? ''
+        : await runWithUsageTags({ category: intent.category }, () => completeChat(systemPrompt, userPrompt, onEvent));
+
+      sections.push({
+        category: intent.category,
+        template_id: template?.id ?? null,
+        tools: intent.tools,
+        template_rendered: !!rendered?.prompt,
+        missing_variables: rendered && rendered.missing.length > 0 ? rendered.missing : undefined,
+      });
+      sectionTexts.push(sectionText);
+    }
+
+    if (!isMultiIntent) {
+      return { text: sectionTexts[0], sections, prompts };
+    }
+
+    const body = sections
+      .map((section, i) => `**${INTENT_LABELS[section.category]}**\n${sectionTexts[i].trim()}`)
+      .join('\n\n');
+
+    onEvent?.({ type: 'token', content: `\n\n${MULTI_INTENT_CLOSING}` });
+
+    return {
+      text: `${MULTI_INTENT_OPENING}${body}\n\n${MULTI_INTENT_CLOSING}`,
+      sections,
+      prompts,
+    };
+
+  } catch (error) {
+    // Without the model there is no draft - let the caller fall back
+    if (error instanceof UpstreamUnavailableError) {
+      throw error;
+    }
+    console.error('Response generation error:', error);
+    return {
+      text: 'I apologize for the inconvenience. I encountered an error while processing your request. Please try again or contact our support team directly.',
+      sections,
+      prompts,
+    };
+  } finally {
+    await client.end();
+  }
+}
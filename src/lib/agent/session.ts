@@ -0,0 +1,368 @@
+import { pool } from '@/lib/db';
+import type { QuoteItem, QuoteOutput, QuoteShippingAddress, ToolCall, ToolResult } from '@/lib/tools';
+import { extractQuoteRequirements, QuoteClarification, QuoteRequirements } from './clarify';
+import { extractShippingDetails } from './intents';
+import type { AgentRequest } from './types';
+
+export interface ActiveQuote {
+  quote_number: string;
+  status: 'draft' | 'pending_customer_input';
+  items: QuoteItem[];
+  requirements?: QuoteRequirements;
+  // Where the quote ships - revisions keep it unless the customer gives a new one
+  shipping_address?: QuoteShippingAddress;
+  liftgate?: boolean;
+}
+
+export interface SessionState {
+  active_quote?: ActiveQuote;
+}
+
+export interface SessionTurn {
+  turn_number: number;
+  message_id?: string;
+  inbound_message: string;
+  tool_calls: ToolCall[];
+  draft_response?: string;
+  sent_reply?: string;
+  created_at: string;
+}
+
+export interface AgentSession {
+  id: number;
+  conversation_id: string;
+  customer_email?: string;
+  state: SessionState;
+  turns: SessionTurn[];
+}
+
+// Turns loaded into the prompt for context
+const SESSION_HISTORY_TURNS = 5;
+
+const FOLLOW_UP_PATTERN = /\b(make it|make that|change (?:it|that|the|my)|instead|update (?:the|my) quote|revise|bump (?:it|that)|increase|decrease|reduce|switch to)\b/i;
+
+/**
+ * Resolve the conversation/thread ID a request belongs to
+ */
+export function getConversationId(body: AgentRequest): string | undefined {
+  return body.context?.conversation_id || body.emailContext?.thread?.conversationId;
+}
+
+/**
+ * Load the session for a conversation, creating it on first contact.
+ * With create false (dry runs) nothing is written, and a conversation
+ * without a session returns undefined.
+ */
+export async function loadSession(
+  conversationId: string,
+  customerEmail?: string,
+  create: boolean = true
+): Promise<AgentSession | undefined> {
+  const sessionResult = create
+    ? await pool.query(
+        `INSERT INTO agent_sessions (conversation_id, customer_email)
+         VALUES ($1, $2)
+         ON CONFLICT (conversation_id)
+         DO UPDATE SET customer_email = COALESCE(agent_sessions.customer_email, EXCLUDED.customer_email)
+         RETURNING id, conversation_id, customer_email, state`,
+        [conversationId, customerEmail || null]
+      )
+    : await pool.query(
+        `SELECT id, conversation_id, customer_email, state FROM agent_sessions WHERE conversation_id = $1`,
+        [conversationId]
+      );
+
+  const session = sessionResult.rows[0];
+  if (!session) {
+    return undefined;
+  }
+
+  const turnsResult = await pool.query(
+    `SELECT turn_number, message_id, inbound_message, tool_calls,
+            draft_response, sent_reply, created_at
+     FROM agent_session_turns
+     WHERE session_id = $1
+     ORDER BY turn_number DESC
+     LIMIT $2`,
+    [session.id, SESSION_HISTORY_TURNS]
+  );
+
+  return {
+    id: session.id,
+    conversation_id: session.conversation_id,
+    customer_email: session.customer_email,
+    state: session.state || {},
+    turns: turnsResult.rows.reverse(),
+  };
+}
+
+/**
+ * Persist a turn and the updated session state.
+ * Returns the turn number, or undefined if it could not be saved.
+ */
+export async function saveTurn(
+  session: AgentSession,
+  turn: {
+    message_id?: string;
+    inbound_message: string;
+    tool_calls: ToolCall[];
+    tool_results: ToolResult[];
+    draft_response: string;
+  },
+  state: SessionState
+): Promise<number | undefined> {
+  const client = await pool.connect();
+
+  try {
+    await client.query('BEGIN');
+
+    const sessionResult = await client.query(
+      `UPDATE agent_sessions
+       SET turn_count = turn_count + 1,
+           state = $2,
+           updated_at = NOW()
+       WHERE id = $1
+       RETURNING turn_count`,
+      [session.id, JSON.stringify(state)]
+    );
+
+    await client.query(
+      `INSERT INTO agent_session_turns (
+        session_id,
+        turn_number,
+        message_id,
+        inbound_message,
+        tool_calls,
+        tool_results,
+        draft_response
+      ) VALUES ($1, $2, $3, $4, $5, $6, $7)`,
+      [
+        session.id,
+        sessionResult.rows[0].turn_count,
+        turn.message_id || null,
+        turn.inbound_message,
+        JSON.stringify(turn.tool_calls),
+        JSON.stringify(turn.tool_results),
+        turn.draft_response,
+      ]
+    );
+
+    await client.query('COMMIT');
+    return sessionResult.rows[0].turn_count;
+  } catch (error) {
+    await client.query('ROLLBACK');
+    console.error('Failed to save session turn:', error);
+    return undefined;
+  } finally {
+    client.release();
+  }
+}
+
+/**
+ * Attach the reply that was actually sent to its session turn
+ */
+export async function recordSentReply(messageId: string, reply: string): Promise<void> {
+  await pool.query(
+    `UPDATE agent_session_turns
+     SET sent_reply = $2, sent_at = NOW()
+     WHERE message_id = $1`,
+    [messageId, reply]
+  );
+}
+
+/**
+ * Summarize earlier turns and the active quote for the prompts
+ */
+export function summarizeSession(session: AgentSession): string {
+  if (session.turns.length === 0 && !session.state.active_quote) {
+    return '';
+  }
+
+  let summary = 'CONVERSATION HISTORY (earlier turns in this thread):\n';
+
+  session.turns.forEach(turn => {
+    summary += `- Customer: ${turn.inbound_message.substring(0, 300)}\n`;
+    const tools = (turn.tool_calls || []).map(call => call.tool);
+    if (tools.length > 0) {
+      summary += `  Tools used: ${tools.join(', ')}\n`;
+    }
+    const reply = turn.sent_reply || turn.draft_response;
+    if (reply) {
+      summary += `  Our reply: ${reply.substring(0, 300)}\n`;
+    }
+  });
+
+  const quote = session.state.active_quote;
+  if (quote) {
+    summary += `\nACTIVE QUOTE: ${quote.quote_number} (${quote.status})\n`;
+    quote.items.forEach(item => {
+      summary += `- ${item.quantity} x ${item.product_name || item.sku} ${item.container_size || ''}\n`;
+    });
+    summary += 'If the customer changes this request, revise this quote (pass its quote_number) instead of starting a new one.\n';
+  }
+
+  return summary;
+}
+
+/**
+ * Does the message modify an earlier quote ("ok make it 4 drums instead")?
+ */
+export function isQuoteFollowUp(message: string): boolean {
+  return FOLLOW_UP_PATTERN.test(message);
+}
+
+/**
+ * Merge quote details from a follow-up into the earlier ones.
+ * The product stays fixed once known - follow-ups like "4 drums instead"
+ * would otherwise be misread as a new product.
+ */
+export function mergeRequirements(
+  prior: QuoteRequirements | undefined,
+  update: QuoteRequirements
+): QuoteRequirements {
+  const merged: QuoteRequirements = { ...prior };
+
+  (Object.keys(update) as Array<keyof QuoteRequirements>).forEach(field => {
+    if (update[field] && !(field === 'product' && merged.product)) {
+      assign(merged, field, update[field]);
+    }
+  });
+
+  return merged;
+}
+
+function assign<K extends keyof QuoteRequirements>(
+  target: QuoteRequirements,
+  key: K,
+  value: QuoteRequirements[K]
+): void {
+  target[key] = value;
+}
+
+/**
+ * Shipping for a revised quote: the address in the follow-up if it gives
+ * one, otherwise the one the quote already ships to
+ */
+function followUpShipping(
+  activeQuote: ActiveQuote,
+  message: string,
+  fallbackZip?: string
+): { shipping_address?: QuoteShippingAddress; liftgate?: boolean } {
+  const details = extractShippingDetails(message);
+  return {
+    shipping_address: details.shipping_address
+      || activeQuote.shipping_address
+      || (fallbackZip ? { zip: fallbackZip } : undefined),
+    liftgate: details.liftgate || activeQuote.liftgate,
+  };
+}
+
+/**
+ * Build the quote call that applies a follow-up to the active quote.
+ * Returns null when there's not enough information to price it.
+ */
+export function buildFollowUpQuoteCall(activeQuote: ActiveQuote, message: string): ToolCall | null {
+  const update = extractQuoteRequirements(message, []);
+
+  if (activeQuote.status === 'pending_customer_input') {
+    // Merge the answers into what the customer told us before
+    const merged = mergeRequirements(activeQuote.requirements, update);
+
+    if (!merged.product || !merged.container_size || !merged.quantity) {
+      return null;
+    }
+
+    return {
+      tool: 'quote',
+      parameters: {
+        quote_number: activeQuote.quote_number,
+        items: [{
+          product_name: merged.product,
+          container_size: merged.container_size,
+          quantity: merged.quantity,
+        }],
+        notes: merged.grade ? `Requested grade: ${merged.grade}` : undefined,
+        ...followUpShipping(activeQuote, message, merged.ship_to_zip),
+      },
+    };
+  }
+
+  if (!update.quantity && !update.container_size) {
+    return null;
+  }
+
+  const lowerMessage = message.toLowerCase();
+  const targetIndex = Math.max(0, activeQuote.items.findIndex(item =>
+    !!item.product_name && lowerMessage.indexOf(item.product_name.toLowerCase()) !== -1
+  ));
+
+  const items = activeQuote.items.map((item, i) => {
+    if (activeQuote.items.length > 1 && i !== targetIndex) return item;
+
+    const revised: QuoteItem = { ...item };
+    if (update.quantity) revised.quantity = update.quantity;
+    if (update.container_size && update.container_size !== item.container_size) {
+      // The SKU is specific to the old container
+      revised.container_size = update.container_size;
+      delete revised.sku;
+    }
+    return revised;
+  });
+
+  return {
+    tool: 'quote',
+    parameters: {
+      quote_number: activeQuote.quote_number,
+      items,
+      ...followUpShipping(activeQuote, message),
+    },
+  };
+}
+
+/**
+ * Work out the session state after this turn
+ */
+export function nextSessionState(
+  state: SessionState,
+  toolResults: ToolResult[],
+  clarification?: QuoteClarification
+): SessionState {
+  const quoteResults = toolResults.filter(r => r.tool === 'quote' && r.data?.success);
+  const latestQuote = quoteResults.length > 0
+    ? quoteResults[quoteResults.length - 1].data as QuoteOutput
+    : null;
+
+  if (latestQuote) {
+    return {
+      ...state,
+      active_quote: {
+        quote_number: latestQuote.quote_number,
+        status: 'draft',
+        items: latestQuote.line_items
+          .filter(item => item.sku !== 'NOT_FOUND')
+          .map(item => ({
+            sku: item.sku,
+            product_name: item.product_name,
+            container_size: item.container_size,
+            quantity: item.quantity,
+          })),
+        shipping_address: latestQuote.shipping_address,
+        liftgate: latestQuote.liftgate,
+      },
+    };
+  }
+
+  if (clarification?.quote_number) {
+    return {
+      ...state,
+      active_quote: {
+        quote_number: clarification.quote_number,
+        status: 'pending_customer_input',
+        items: [],
+        requirements: clarification.requirements,
+      },
+    };
+  }
+
+  return state;
+}
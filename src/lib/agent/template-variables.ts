@@ -0,0 +1,128 @@
+import type {
+  OrderStatusOutput,
+  ProductSearchOutput,
+  QuoteOutput,
+  ToolResult,
+} from '@/lib/tools';
+import { getCalendarContext } from '@/lib/business-calendar';
+import type { AgentRequest } from './types';
+
+// Signature used by the {{agent_name}} variable
+const AGENT_NAME = process.env.AGENT_NAME || 'Alliance Chemical Team';
+
+function money(value: number): string {
+  return value.toFixed(2);
+}
+
+function findData<T>(toolResults: ToolResult[], tool: string): T | undefined {
+  const result = toolResults.find(r => r.tool === tool && r.data);
+  return result?.data as T | undefined;
+}
+
+/**
+ * Build the variables available to prompt templates from the email
+ * and the tool results. Variables without a value are left out so
+ * they can be reported as missing.
+ */
+export function buildTemplateVariables(
+  message: string,
+  toolResults: ToolResult[],
+  context?: AgentRequest['context'],
+  emailContext?: AgentRequest['emailContext']
+): Record<string, any> {
+  const variables: Record<string, any> = {
+    customer_message: message,
+    agent_name: AGENT_NAME,
+    tool_results: JSON.stringify(toolResults, null, 2),
+  };
+
+  const calendar = getCalendarContext();
+  variables.quote_by = calendar.quote_by;
+  variables.response_by = calendar.response_by;
+  variables.ships_on = calendar.ship_date;
+  variables.after_hours = !calendar.is_business_hours;
+  if (calendar.next_open) variables.next_open = calendar.next_open;
+
+  if (context?.case_number) variables.case_number = context.case_number;
+  if (context?.case_due) variables.case_due = context.case_due;
+
+  const customerName = emailContext?.sender?.name || context?.customer_name;
+  if (customerName) variables.customer_name = customerName;
+
+  const customerEmail = emailContext?.sender?.email || context?.customer_email;
+  if (customerEmail) variables.customer_email = customerEmail;
+
+  const detected = emailContext?.detected;
+  if (detected?.productNames?.length) variables.product_names = detected.productNames.join(', ');
+  if (detected?.quantities?.length) variables.quantities = detected.quantities.join(', ');
+  if (detected?.urgency?.isUrgent) {
+    variables.is_urgent = true;
+    variables.urgency = detected.urgency.urgentPhrases.join(', ') || detected.urgency.urgencyLevel;
+  }
+  if (detected?.sentiment) {
+    variables.sentiment = detected.sentiment.sentiment;
+    variables.tone = detected.sentiment.tone;
+  }
+
+  // Quote
+  const quote = findData<QuoteOutput>(toolResults, 'quote');
+  if (quote?.success) {
+    variables.quote_number = quote.quote_number;
+    variables.quote_items = quote.line_items
+      .map(item => `- ${item.quantity} x ${item.product_name} (${item.container_size}, SKU ${item.sku}) @ $${money(item.unit_price)} = $${money(item.total)}`)
+      .join('\n');
+    variables.subtotal = money(quote.summary.subtotal);
+    variables.shipping_estimate = money(quote.summary.shipping_estimate);
+    if (quote.shipping) {
+      variables.shipping_method = quote.shipping.carrier;
+      variables.shipping_breakdown = quote.shipping.breakdown
+        .map(charge => `- ${charge.label}: $${money(charge.amount)}`)
+        .join('\n');
+    }
+    if (quote.summary.hazmat_fees > 0) variables.hazmat_fee = money(quote.summary.hazmat_fees);
+    variables.total = money(quote.summary.total);
+    variables.payment_terms = quote.notes.payment_terms;
+    if (quote.notes.hazmat) variables.special_notes = quote.notes.hazmat;
+    if (!variables.product_names) {
+      variables.product_names = quote.line_items.map(item => item.product_name).join(', ');
+    }
+  }
+
+  // Order status
+  const orders = findData<OrderStatusOutput>(toolResults, 'order-status');
+  const order = orders?.found ? orders.orders?.[0] : undefined;
+  if (order) {
+    variables.order_number = order.order_number;
+    variables.order_status = order.status;
+    variables.shipped = order.status === 'Shipped' || order.status === 'Delivered';
+    if (order.ship_date) variables.ship_date = order.ship_date;
+    if (order.carrier) variables.carrier = order.carrier;
+    if (order.tracking_number) variables.tracking_number = order.tracking_number;
+    if (order.tracking_url) variables.tracking_url = order.tracking_url;
+    if (order.estimated_delivery) variables.estimated_delivery = order.estimated_delivery;
+    variables.order_items = order.items
+      .map(item => `- ${item.quantity} x ${item.name} (SKU ${item.sku})`)
+      .join('\n');
+    const address = order.shipping_address;
+    variables.shipping_address = [
+      address.name,
+      address.street1,
+      address.street2,
+      `${address.city}, ${address.state} ${address.postal_code}`,
+    ].filter(Boolean).join('\n');
+  }
+
+  // Product search
+  const search = findData<ProductSearchOutput>(toolResults, 'product-search');
+  if (search?.found && search.products?.length) {
+    variables.product_list = search.products
+      .map(product => `- ${product.name}${product.cas_number ? ` (CAS ${product.cas_number})` : ''}: ` +
+        product.variants.map(v => `${v.container_size} $${money(v.price)}`).join(', '))
+      .join('\n');
+    if (!variables.product_names) {
+      variables.product_names = search.products.map(product => product.name).join(', ');
+    }
+  }
+
+  return variables;
+}
@@ -0,0 +1,260 @@
+import { executeTool, listTools, ToolCall, ToolResult } from '@/lib/tools';
+import { ChatMessage, getLLMProvider, runWithUsageTags } from '@/lib/llm';
+import { planToolSteps, PlanStep } from './chain';
+import { detectIntentAndRoute } from './intents';
+import type { AgentEventHandler, AgentRequest } from './types';
+
+// Maximum number of model round trips in the tool-calling loop
+const MAX_TOOL_STEPS = parseInt(process.env.AGENT_MAX_TOOL_STEPS || '4');
+
+const TOOL_PLANNER_PROMPT = `You are the tool planner for Alliance Chemical's customer service agent.
+Decide which tools are needed to answer the customer's email. Call every tool that is relevant -
+an email may ask about an order, pricing, documents and products at the same time.
+Use customer-history (it looks up the sender) when past orders or quotes would help the reply.
+Use documents for SDS, COA or tech data sheet requests, with the lot number when the customer gives one.
+Use substitutes when the customer asks for an alternative or the product they want is out of stock.
+Use spec-lookup for technical questions (flash point, grade, purity, density) - never answer a spec from memory.
+Tools you call in the same turn run in parallel, so request independent lookups together.
+For a quote where the customer names a product rather than a SKU: search for the product, pick the variant
+matching the container they asked for, price that SKU with pricing using the requested quantity, then call quote
+with the SKU and quantity. Pass the ship-to address (ZIP, state, residential, PO box) and any liftgate need to quote and pricing so shipping
+and hazmat restrictions are checked for it.
+Never invent order numbers, SKUs or prices. When you have all the data you need, reply with a short summary and no tool calls.`;
+
+// Tools that write records - a dry run lists their calls without running them
+const SIDE_EFFECT_TOOLS = ['quote'];
+
+// Who the run is for. Applied to every tool call server-side, whatever
+// routed it - the model never decides whose records a tool touches.
+export interface ToolScope {
+  customer_email?: string;
+  customer_name?: string;
+  // The conversation's active quote, the only one a quote call may revise
+  quote_number?: string;
+}
+
+interface ToolRun {
+  toolCalls: ToolCall[];
+  toolResults: ToolResult[];
+}
+
+/**
+ * Execute tool calls in-process through the tool registry
+ */
+export async function executeToolCalls(
+  toolCalls: ToolCall[],
+  onEvent?: AgentEventHandler,
+  dryRun: boolean = false,
+  scope: ToolScope = {}
+): Promise<ToolResult[]> {
+  const run: ToolRun = { toolCalls: [], toolResults: [] };
+
+  for (const call of toolCalls) {
+    await runTool(call, run, onEvent, dryRun, scope);
+  }
+
+  return run.toolResults;
+}
+
+/**
+ * Fill in the sender on calls that act for a customer: quotes are saved
+ * against them and history is theirs, whatever the model passed
+ */
+function applyScope(call: ToolCall, scope: ToolScope): ToolCall {
+  if (call.tool === 'customer-history') {
+    return { ...call, parameters: { ...call.parameters, email: scope.customer_email, domain: undefined } };
+  }
+  if (call.tool === 'quote') {
+    return {
+      ...call,
+      parameters: {
+        ...call.parameters,
+        customer_email: scope.customer_email,
+        customer_name: scope.customer_name,
+      },
+    };
+  }
+  return call;
+}
+
+/**
+ * Why a call reaches outside the run's scope, if it does
+ */
+function scopeError(call: ToolCall, scope: ToolScope): string | undefined {
+  const quoteNumber = call.parameters?.quote_number;
+  if (call.tool === 'quote' && quoteNumber && quoteNumber !== scope.quote_number) {
+    return `Quote ${quoteNumber} is not this conversation's active quote - omit quote_number to create a new quote`;
+  }
+  return undefined;
+}
+
+/**
+ * Run a single tool call, emitting start/end events. The call and its
+ * result are recorded in completion order, in step with tool_end, so
+ * parallel calls stay aligned with their timings.
+ */
+async function runTool(
+  requested: ToolCall,
+  run: ToolRun,
+  onEvent?: AgentEventHandler,
+  dryRun: boolean = false,
+  scope: ToolScope = {}
+): Promise<ToolResult> {
+  const call = applyScope(requested, scope);
+  const startTime = Date.now();
+  onEvent?.({ type: 'tool_start', tool: call.tool, parameters: call.parameters });
+
+  const outOfScope = scopeError(call, scope);
+  const result: ToolResult = outOfScope
+    ? { tool: call.tool, error: outOfScope }
+    : dryRun && SIDE_EFFECT_TOOLS.indexOf(call.tool) !== -1
+      ? { tool: call.tool, error: 'Not run in a dry run' }
+      : await executeTool(call.tool, call.parameters);
+
+  run.toolCalls.push(call);
+  run.toolResults.push(result);
+
+  onEvent?.({
+    type: 'tool_end',
+    tool: call.tool,
+    success: !result.error,
+    error: result.error,
+    duration_ms: Date.now() - startTime,
+  });
+
+  return result;
+}
+
+/**
+ * Execute a plan: each step starts as soon as the steps it depends on
+ * have finished, so independent steps run in parallel. A step whose
+ * parameters resolve to null is skipped.
+ */
+export async function executePlan(
+  steps: PlanStep[],
+  onEvent?: AgentEventHandler,
+  dryRun: boolean = false,
+  scope: ToolScope = {}
+): Promise<ToolRun> {
+  const run: ToolRun = { toolCalls: [], toolResults: [] };
+  const results: Record<string, ToolResult | undefined> = {};
+  const pending: Record<string, Promise<void>> = {};
+
+  steps.forEach(step => {
+    const dependencies = (step.dependsOn || []).map(id => pending[id]).filter(Boolean);
+
+    pending[step.id] = Promise.all(dependencies).then(async () => {
+      const parameters = typeof step.parameters === 'function'
+        ? step.parameters(results)
+        : step.parameters;
+
+      if (parameters === null) {
+        return;
+      }
+
+      results[step.id] = await runTool({ tool: step.tool, parameters }, run, onEvent, dryRun, scope);
+    });
+  });
+
+  await Promise.all(Object.keys(pending).map(id => pending[id]));
+
+  return run;
+}
+
+/**
+ * Route with regex and run the resulting plan. A dry run skips the
+ * tools with side effects.
+ */
+async function routeAndExecute(
+  message: string,
+  onEvent?: AgentEventHandler,
+  dryRun: boolean = false,
+  scope: ToolScope = {}
+): Promise<ToolRun> {
+  const routedCalls = await detectIntentAndRoute(message);
+  return executePlan(planToolSteps(routedCalls), onEvent, dryRun, scope);
+}
+
+/**
+ * Let the model choose tools in a structured tool-calling loop.
+ * Each tool result is fed back so the model can make follow-up calls,
+ * up to MAX_TOOL_STEPS rounds; the calls of one round run in parallel.
+ * Falls back to regex routing when the
+ * model is unavailable, and uses it outright for dry runs.
+ */
+export async function planAndExecuteTools(
+  message: string,
+  context?: AgentRequest['context'],
+  emailContext?: AgentRequest['emailContext'],
+  onEvent?: AgentEventHandler,
+  dryRun: boolean = false,
+  scope: ToolScope = {}
+): Promise<{ toolCalls: ToolCall[]; toolResults: ToolResult[]; routing: 'llm' | 'regex' }> {
+  const llm = getLLMProvider();
+
+  if (!llm.canPlanTools || dryRun) {
+    return { ...(await routeAndExecute(message, onEvent, dryRun, scope)), routing: 'regex' };
+  }
+
+  const run: ToolRun = { toolCalls: [], toolResults: [] };
+
+  let customerInfo = '';
+  const senderEmail = emailContext?.sender?.email || context?.customer_email;
+  if (senderEmail) {
+    customerInfo += `\nCustomer email: ${senderEmail}`;
+  }
+  if (context?.session_summary) {
+    customerInfo += `\n\n${context.session_summary}`;
+  }
+  if (emailContext?.detected?.orderNumbers?.length) {
+    customerInfo += `\nOrder numbers detected: ${emailContext.detected.orderNumbers.join(', ')}`;
+  }
+
+  const messages: ChatMessage[] = [
+    { role: 'system', content: TOOL_PLANNER_PROMPT },
+    { role: 'user', content: `Customer email:\n${message}${customerInfo}` },
+  ];
+
+  try {
+    for (let step = 0; step < MAX_TOOL_STEPS; step++) {
+      const completion = await runWithUsageTags({ category: 'tool-planning' }, () => llm.chat({
+        messages,
+        tools: listTools(),
+        temperature: 0,
+      }));
+
+      const requestedCalls = completion.tool_calls;
+
+      if (requestedCalls.length === 0) {
+        break;
+      }
+
+      messages.push({ role: 'assistant', content: completion.content, tool_calls: requestedCalls });
+
+      const results = await Promise.all(requestedCalls.map(requested => {
+        let parameters: any = {};
+        try {
+          parameters = JSON.parse(requested.arguments || '{}');
+        } catch (parseError) {
+          console.error(`Invalid arguments for ${requested.name}:`, parseError);
+        }
+
+        return runTool({ tool: requested.name, parameters }, run, onEvent, false, scope);
+      }));
+
+      requestedCalls.forEach((requested, i) => {
+        messages.push({
+          role: 'tool',
+          tool_call_id: requested.id,
+          content: JSON.stringify(results[i].error ? { error: results[i].error } : results[i].data),
+        });
+      });
+    }
+
+    return { ...run, routing: 'llm' };
+
+  } catch (error) {
+    console.error('Tool-calling loop failed, falling back to regex routing:', error);
+    return { ...(await routeAndExecute(message, onEvent, false, scope)), routing: 'regex' };
+  }
+}
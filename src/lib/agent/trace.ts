@@ -0,0 +1,156 @@
+import { pool } from '@/lib/db';
+import type { ToolCall, ToolResult } from '@/lib/tools';
+import type { AgentIntent } from './intents';
+import type { GuardResult } from './guard';
+import type { GeneratedResponse } from './response';
+import type { AgentEventHandler, AgentTrace, ModelParams } from './types';
+
+/**
+ * Wrap an event handler to record each tool's latency.
+ * Tool calls are recorded as they finish, so durations line up with them
+ * even when tools run in parallel.
+ */
+export function createToolTimer(onEvent?: AgentEventHandler): {
+  onEvent: AgentEventHandler;
+  durations: number[];
+} {
+  const durations: number[] = [];
+
+  return {
+    durations,
+    onEvent: event => {
+      if (event.type === 'tool_end') {
+        durations.push(event.duration_ms);
+      }
+      onEvent?.(event);
+    },
+  };
+}
+
+/**
+ * Assemble the trace of one agent run
+ */
+export function buildTrace(run: {
+  traceId: string;
+  message: string;
+  dryRun: boolean;
+  emailId?: string;
+  conversationId?: string;
+  routing: AgentTrace['routing'];
+  intents: AgentIntent[];
+  toolCalls: ToolCall[];
+  toolResults: ToolResult[];
+  toolDurations: number[];
+  response: GeneratedResponse;
+  modelParams: ModelParams;
+  guard?: GuardResult;
+  startTime: number;
+}): AgentTrace {
+  return {
+    trace_id: run.traceId,
+    dry_run: run.dryRun,
+    message: run.message,
+    email_id: run.emailId,
+    conversation_id: run.conversationId,
+    routing: run.routing,
+    intents: run.intents,
+    tools: run.toolCalls.map((call, i) => ({
+      tool: call.tool,
+      parameters: call.parameters,
+      output: run.toolResults[i]?.data,
+      error: run.toolResults[i]?.error,
+      duration_ms: run.toolDurations[i] ?? null,
+    })),
+    sections: run.response.sections.map((section, i) => ({
+      category: section.category,
+      template_id: section.template_id,
+      system_prompt: run.response.prompts[i]?.system,
+      user_prompt: run.response.prompts[i]?.user,
+    })),
+    model_params: run.modelParams,
+    guard: run.guard,
+    duration_ms: Date.now() - run.startTime,
+    created_at: new Date().toISOString(),
+  };
+}
+
+/**
+ * Persist a trace. Failures are logged, never thrown - tracing must
+ * not break the agent.
+ */
+export async function saveTrace(trace: AgentTrace): Promise<void> {
+  try {
+    await pool.query(
+      `INSERT INTO agent_traces (
+        trace_id,
+        dry_run,
+        message,
+        email_id,
+        conversation_id,
+        routing,
+        intents,
+        tools,
+        sections,
+        model_params,
+        guard,
+        duration_ms
+      ) VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10, $11, $12)`,
+      [
+        trace.trace_id,
+        trace.dry_run,
+        trace.message,
+        trace.email_id || null,
+        trace.conversation_id || null,
+        trace.routing,
+        JSON.stringify(trace.intents),
+        JSON.stringify(trace.tools),
+        JSON.stringify(trace.sections),
+        JSON.stringify(trace.model_params),
+        trace.guard ? JSON.stringify(trace.guard) : null,
+        trace.duration_ms,
+      ]
+    );
+  } catch (error) {
+    console.error('Failed to save agent trace:', error);
+  }
+}
+
+/**
+ * Load a persisted trace by its ID
+ */
+export async function getTrace(traceId: string): Promise<AgentTrace | null> {
+  const result = await pool.query(
+    `SELECT trace_id, dry_run, message, email_id, conversation_id, routing,
+            intents, tools, sections, model_params, guard, duration_ms, created_at
+     FROM agent_traces
+     WHERE trace_id = $1`,
+    [traceId]
+  );
+
+  return result.rows[0] || null;
+}
+
+/**
+ * List recent traces, optionally for one email
+ */
+export async function listTraces(emailId?: string, limit: number = 20): Promise<Array<Record<string, any>>> {
+  const params: any[] = [limit];
+  let where = '';
+
+  if (emailId) {
+    where = 'WHERE email_id = $2';
+    params.push(emailId);
+  }
+
+  const result = await pool.query(
+    `SELECT trace_id, dry_run, message, email_id, routing, intents,
+            jsonb_array_length(tools) as tool_count, duration_ms, created_at
+     FROM agent_traces
+     ${where}
+     ORDER BY created_at DESC
+     LIMIT $1`,
+    params
+  );
+
+  return result.rows;
+}
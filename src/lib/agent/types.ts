@@ -0,0 +1,172 @@
+import type { AgentIntent, IntentCategory } from './intents';
+import type { GuardResult, GuardViolation } from './guard';
+import type { QuoteField } from './clarify';
+import type { ConfidenceSignals } from './confidence';
+import type { PolicyResult } from './policy';
+import type { DocumentAttachment } from './attachments';
+
+export interface AgentRequest {
+  message: string;
+  // Plan with regex routing and build the prompts, but don't call the LLM
+  dryRun?: boolean;
+  context?: {
+    email_id?: string;
+    customer_email?: string;
+    customer_name?: string;
+    previous_messages?: string[];
+    // Classifier label and subject, as sent by the email webhook
+    classification?: string;
+    subject?: string;
+    // Email thread this message belongs to - enables session state across turns
+    conversation_id?: string;
+    // Support case opened for a complaint, and its promised follow-up time
+    case_number?: string;
+    case_due?: string;
+    // Set by the agent from the loaded session, not by callers
+    session_summary?: string;
+  };
+  // NEW: Email-specific context from Lambda
+  emailContext?: {
+    thread?: {
+      conversationId?: string;
+      isReply: boolean;
+      threadLength: number;
+      previousMessages?: Array<{
+        date: string;
+        from: string;
+        subject: string;
+        preview: string;
+      }>;
+    };
+    detected?: {
+      productNames: string[];
+      quantities: string[];
+      orderNumbers: string[];
+      phoneNumbers: string[];
+      urgency: {
+        isUrgent: boolean;
+        urgencyLevel: string;
+        urgentPhrases: string[];
+      };
+      sentiment: {
+        sentiment: string;
+        tone: string;
+        negativeIndicators: string[];
+        positiveIndicators: string[];
+      };
+    };
+    metadata?: {
+      receivedTime: string;
+      hasAttachments: boolean;
+      importance: string;
+      ccRecipients: string[];
+      categories: string[];
+    };
+    sender?: {
+      email: string;
+      domain: string;
+      name: string;
+    };
+  };
+}
+
+export interface ResponseSection {
+  category: IntentCategory;
+  template_id: number | null;
+  tools: string[];
+  // Whether the template text was rendered into the prompt
+  template_rendered?: boolean;
+  // Template variables that had no value for this request
+  missing_variables?: string[];
+}
+
+export interface ModelParams {
+  provider: string;
+  model: string;
+  temperature: number;
+  max_tokens: number;
+}
+
+/**
+ * Everything the agent did in one run, persisted for debugging
+ */
+export interface AgentTrace {
+  trace_id: string;
+  dry_run: boolean;
+  message: string;
+  email_id?: string;
+  conversation_id?: string;
+  // 'cache' when a cached draft was served without running tools or the model
+  routing: 'llm' | 'regex' | 'cache';
+  intents: AgentIntent[];
+  tools: Array<{
+    tool: string;
+    parameters: any;
+    output?: any;
+    error?: string;
+    duration_ms: number | null;
+  }>;
+  sections: Array<{
+    category: IntentCategory;
+    template_id: number | null;
+    system_prompt?: string;
+    user_prompt?: string;
+  }>;
+  model_params: ModelParams;
+  guard?: GuardResult;
+  duration_ms: number;
+  created_at: string;
+}
+
+export interface AgentResponse {
+  success: boolean;
+  message: string;
+  tools_used: string[];
+  intents: IntentCategory[];
+  confidence: number;
+  guard: {
+    passed: boolean;
+    violations: GuardViolation[];
+    regenerations: number;
+  };
+  policy: PolicyResult;
+  // Only drafts that pass verification and the content policy may skip review
+  auto_approvable: boolean;
+  // Documents to attach when the draft is sent
+  attachments: DocumentAttachment[];
+  metadata: {
+    timestamp: string;
+    cached: boolean;
+    // Similarity to the cached question, on a cache hit
+    cache_similarity?: number;
+    // Data left out of the draft because an upstream was down
+    unavailable_data?: string[];
+    trace_id?: string;
+    routing?: 'llm' | 'regex';
+    tool_steps?: number;
+    confidence_signals?: ConfidenceSignals;
+    session?: {
+      conversation_id: string;
+      turn: number;
+      active_quote?: string;
+    };
+    sections?: ResponseSection[];
+    clarification?: {
+      status: 'pending_customer_input';
+      missing_fields: QuoteField[];
+      quote_number?: string;
+    };
+  };
+  // Returned for dry runs
+  trace?: AgentTrace;
+}
+
+/**
+ * Progress events emitted while the agent runs (used for streaming)
+ */
+export type AgentEvent =
+  | { type: 'tool_start'; tool: string; parameters: any }
+  | { type: 'tool_end'; tool: string; success: boolean; error?: string; duration_ms: number }
+  | { type: 'token'; content: string };
+
+export type AgentEventHandler = (event: AgentEvent) => void;
@@ -0,0 +1,277 @@
+/**
+ * Business calendar: office hours, holidays and the shipping cutoff.
+ * Turns "ships same day if before 2PM" into concrete dates for replies.
+ *
+ * Dates are handled as "wall clock" Date objects whose local fields
+ * (getDay, getHours...) hold the time in the business time zone.
+ */
+
+const CALENDAR = {
+  timeZone: process.env.BUSINESS_TIMEZONE || 'America/Chicago',
+  openHour: parseInt(process.env.BUSINESS_OPEN_HOUR || '8'),
+  closeHour: parseInt(process.env.BUSINESS_CLOSE_HOUR || '17'),
+  shippingCutoffHour: parseInt(process.env.SHIPPING_CUTOFF_HOUR || '14'),
+  // Sunday = 0
+  workDays: [1, 2, 3, 4, 5],
+  // Extra closures as YYYY-MM-DD, e.g. inventory days
+  extraHolidays: (process.env.BUSINESS_HOLIDAYS || '').split(',').map(d => d.trim()).filter(Boolean),
+};
+
+// Business hours until we promise a quote / a reply / a complaint follow-up
+const QUOTE_TURNAROUND_HOURS = 2;
+const RESPONSE_TURNAROUND_HOURS = CALENDAR.closeHour - CALENDAR.openHour;
+const COMPLAINT_TURNAROUND_HOURS = 4;
+
+const DAY_NAMES = ['Sunday', 'Monday', 'Tuesday', 'Wednesday', 'Thursday', 'Friday', 'Saturday'];
+const MONTH_NAMES = ['Jan', 'Feb', 'Mar', 'Apr', 'May', 'Jun', 'Jul', 'Aug', 'Sep', 'Oct', 'Nov', 'Dec'];
+
+export interface BusinessCalendarContext {
+  now: string;
+  // Label for the times below, e.g. CST or CDT
+  time_zone: string;
+  is_business_day: boolean;
+  is_business_hours: boolean;
+  holiday?: string;
+  // When we are next open, if closed now
+  next_open?: string;
+  // Ship date for an order placed now
+  ship_date: string;
+  before_shipping_cutoff: boolean;
+  quote_by: string;
+  response_by: string;
+  complaint_response_by: string;
+}
+
+/**
+ * Convert an instant to wall-clock time in the business time zone
+ */
+function toBusinessTime(date: Date): Date {
+  return new Date(date.toLocaleString('en-US', { timeZone: CALENDAR.timeZone }));
+}
+
+/**
+ * The business time zone's abbreviation at an instant ("CST", "CDT")
+ */
+function timeZoneLabel(at: Date): string {
+  const formatted = new Intl.DateTimeFormat('en-US', { timeZone: CALENDAR.timeZone, timeZoneName: 'short' }).format(at);
+  return formatted.split(' ').pop() || CALENDAR.timeZone;
+}
+
+function dateKey(date: Date): string {
+  const month = String(date.getMonth() + 1);
+  const day = String(date.getDate());
+  return `${date.getFullYear()}-${month.length < 2 ? '0' + month : month}-${day.length < 2 ? '0' + day : day}`;
+}
+
+/**
+ * The nth given weekday of a month (n = -1 for the last one)
+ */
+function nthWeekday(year: number, month: number, weekday: number, n: number): Date {
+  if (n < 0) {
+    const last = new Date(year, month + 1, 0);
+    last.setDate(last.getDate() - ((last.getDay() - weekday + 7) % 7));
+    return last;
+  }
+  const first = new Date(year, month, 1);
+  first.setDate(1 + ((weekday - first.getDay() + 7) % 7) + (n - 1) * 7);
+  return first;
+}
+
+/**
+ * A fixed-date holiday moved to Friday/Monday when it falls on a weekend
+ */
+function observed(year: number, month: number, day: number): Date {
+  const date = new Date(year, month, day);
+  if (date.getDay() === 6) date.setDate(day - 1);
+  if (date.getDay() === 0) date.setDate(day + 1);
+  return date;
+}
+
+/**
+ * Holidays the office is closed for in a year, keyed by YYYY-MM-DD.
+ * Observed dates count in the year they fall in - a Saturday New Year's
+ * Day is observed on Dec 31 of the year before.
+ */
+export function getHolidays(year: number): Record<string, string> {
+  const thanksgiving = nthWeekday(year, 10, 4, 4);
+  const dayAfterThanksgiving = new Date(year, 10, thanksgiving.getDate() + 1);
+
+  const dates: Array<[Date, string]> = [
+    [observed(year, 0, 1), "New Year's Day"],
+    [observed(year + 1, 0, 1), "New Year's Day"],
+    [nthWeekday(year, 4, 1, -1), 'Memorial Day'],
+    [observed(year, 6, 4), 'Independence Day'],
+    [nthWeekday(year, 8, 1, 1), 'Labor Day'],
+    [thanksgiving, 'Thanksgiving'],
+    [dayAfterThanksgiving, 'Day after Thanksgiving'],
+    [observed(year, 11, 25), 'Christmas Day'],
+  ];
+
+  const holidays: Record<string, string> = {};
+  dates
+    .filter(([date]) => date.getFullYear() === year)
+    .forEach(([date, name]) => {
+      holidays[dateKey(date)] = name;
+    });
+
+  CALENDAR.extraHolidays
+    .filter(key => key.indexOf(String(year)) === 0)
+    .forEach(key => {
+      holidays[key] = holidays[key] || 'Office closed';
+    });
+
+  return holidays;
+}
+
+function holidayName(date: Date): string | undefined {
+  return getHolidays(date.getFullYear())[dateKey(date)];
+}
+
+function isBusinessDay(date: Date): boolean {
+  return CALENDAR.workDays.indexOf(date.getDay()) !== -1 && !holidayName(date);
+}
+
+function isOpen(date: Date): boolean {
+  const hour = date.getHours() + date.getMinutes() / 60;
+  return isBusinessDay(date) && hour >= CALENDAR.openHour && hour < CALENDAR.closeHour;
+}
+
+/**
+ * Opening time of the next business day after the given date
+ */
+function nextBusinessDayOpen(date: Date): Date {
+  const next = new Date(date.getFullYear(), date.getMonth(), date.getDate() + 1, CALENDAR.openHour);
+  while (!isBusinessDay(next)) {
+    next.setDate(next.getDate() + 1);
+  }
+  return next;
+}
+
+/**
+ * When the office is next open (now, if it is open)
+ */
+function nextOpen(date: Date): Date {
+  if (isBusinessDay(date) && date.getHours() < CALENDAR.openHour) {
+    return new Date(date.getFullYear(), date.getMonth(), date.getDate(), CALENDAR.openHour);
+  }
+  if (isOpen(date)) {
+    return date;
+  }
+  return nextBusinessDayOpen(date);
+}
+
+/**
+ * Add working hours, skipping nights, weekends and holidays
+ */
+function addBusinessHours(date: Date, hours: number): Date {
+  let current = nextOpen(date);
+  let remaining = hours * 60;
+
+  while (remaining > 0) {
+    const close = new Date(current.getFullYear(), current.getMonth(), current.getDate(), CALENDAR.closeHour);
+    const available = (close.getTime() - current.getTime()) / 60000;
+
+    if (remaining <= available) {
+      return new Date(current.getTime() + remaining * 60000);
+    }
+
+    remaining -= available;
+    current = nextBusinessDayOpen(current);
+  }
+
+  return current;
+}
+
+/**
+ * "Monday Oct 20"
+ */
+function formatDay(date: Date): string {
+  return `${DAY_NAMES[date.getDay()]} ${MONTH_NAMES[date.getMonth()]} ${date.getDate()}`;
+}
+
+/**
+ * "Tuesday Oct 21, 10am" / "10:30am"
+ */
+function formatDayTime(date: Date): string {
+  const hours = date.getHours();
+  const minutes = date.getMinutes();
+  const hour12 = hours % 12 === 0 ? 12 : hours % 12;
+  const time = minutes > 0 ? `${hour12}:${minutes < 10 ? '0' + minutes : minutes}` : String(hour12);
+  return `${formatDay(date)}, ${time}${hours < 12 ? 'am' : 'pm'}`;
+}
+
+/**
+ * Concrete dates and office status for a reply written at the given time
+ */
+export function getCalendarContext(at: Date = new Date()): BusinessCalendarContext {
+  const now = toBusinessTime(at);
+  const businessDay = isBusinessDay(now);
+  const open = isOpen(now);
+  const beforeCutoff = businessDay && now.getHours() < CALENDAR.shippingCutoffHour;
+  const shipDate = beforeCutoff ? now : nextBusinessDayOpen(now);
+  const label = timeZoneLabel(at);
+
+  return {
+    now: `${formatDayTime(now)} ${label}`,
+    time_zone: label,
+    is_business_day: businessDay,
+    is_business_hours: open,
+    holiday: holidayName(now),
+    next_open: open ? undefined : formatDayTime(nextOpen(now)),
+    ship_date: formatDay(shipDate),
+    before_shipping_cutoff: beforeCutoff,
+    quote_by: formatDayTime(addBusinessHours(now, QUOTE_TURNAROUND_HOURS)),
+    response_by: formatDayTime(addBusinessHours(now, RESPONSE_TURNAROUND_HOURS)),
+    complaint_response_by: formatDayTime(addBusinessHours(now, COMPLAINT_TURNAROUND_HOURS)),
+  };
+}
+
+/**
+ * The time a number of business hours after the given one, as an
+ * instant and as the label replies use ("Tuesday Oct 21, 10am CST")
+ */
+export function getBusinessDueTime(hours: number, at: Date = new Date()): { due_at: Date; label: string } {
+  const now = toBusinessTime(at);
+  const due = addBusinessHours(now, hours);
+
+  // Wall-clock to instant: shift back by the business time zone's offset
+  const dueAt = new Date(due.getTime() - (now.getTime() - at.getTime()));
+  return {
+    due_at: dueAt,
+    label: `${formatDayTime(due)} ${timeZoneLabel(dueAt)}`,
+  };
+}
+
+/**
+ * An instant as replies state it ("Tuesday Oct 21, 10am CST")
+ */
+export function formatBusinessTime(at: Date): string {
+  return `${formatDayTime(toBusinessTime(at))} ${timeZoneLabel(at)}`;
+}
+
+/**
+ * Prompt block giving the model the dates to use
+ */
+export function formatCalendarPrompt(calendar: BusinessCalendarContext): string {
+  let prompt = 'BUSINESS CALENDAR (use these exact dates - do not work out dates yourself):\n';
+  prompt += `- Current time: ${calendar.now}`;
+  if (calendar.holiday) {
+    prompt += ` (${calendar.holiday} - office closed)`;
+  } else if (!calendar.is_business_hours) {
+    prompt += ' (outside business hours)';
+  }
+  prompt += '\n';
+  if (calendar.next_open) {
+    prompt += `- We reopen: ${calendar.next_open} ${calendar.time_zone}\n`;
+  }
+  prompt += `- An order placed now ships: ${calendar.ship_date}\n`;
+  prompt += `- A quote requested now will be sent by: ${calendar.quote_by} ${calendar.time_zone}\n`;
+  prompt += `- Follow-up replies by: ${calendar.response_by} ${calendar.time_zone}\n`;
+
+  if (!calendar.is_business_hours) {
+    prompt += '- This email arrived while the office is closed. Thank them for their message, say when the team will follow up, ' +
+      'and do not imply someone is working on it right now.\n';
+  }
+
+  return prompt;
+}
@@ -1,4 +1,5 @@
 import { kv } from '@vercel/kv';
+import { callUpstream } from './resilience';
 
 interface CacheOptions {
   ttl?: number; // Time to live in seconds
@@ -32,7 +33,7 @@ export class CacheService {
    */
   async get<T>(key: string): Promise<T | null> {
     try {
-      const cachedValue = await kv.get<T>(this.getKey(key));
+      const cachedValue = await callUpstream('kv', () => kv.get<T>(this.getKey(key)));
       if (cachedValue) {
         console.log(`Cache HIT: ${key}`);
         return cachedValue;
@@ -51,7 +52,7 @@ export class CacheService {
   async set<T>(key: string, value: T, options?: CacheOptions): Promise<void> {
     try {
       const ttl = options?.ttl || DEFAULT_TTL.ai_response;
-      await kv.set(this.getKey(key), value, { ex: ttl });
+      await callUpstream('kv', () => kv.set(this.getKey(key), value, { ex: ttl }));
       console.log(`Cache SET: ${key} (TTL: ${ttl}s)`);
     } catch (error) {
       console.error('Cache set error:', error);
@@ -63,7 +64,7 @@ export class CacheService {
    */
   async delete(key: string): Promise<void> {
     try {
-      await kv.del(this.getKey(key));
+      await callUpstream('kv', () => kv.del(this.getKey(key)));
       console.log(`Cache DELETE: ${key}`);
     } catch (error) {
       console.error('Cache delete error:', error);
@@ -0,0 +1,341 @@
+/**
+ * Support cases for complaints and angry-customer emails. A case links
+ * the email, order and customer, and tracks severity, owner and the
+ * follow-up we promised (SLA due time, in business hours).
+ */
+
+import { pool } from '@/lib/db';
+import { formatBusinessTime, getBusinessDueTime } from '@/lib/business-calendar';
+
+export type CaseSeverity = 'low' | 'medium' | 'high' | 'critical';
+export type CaseStatus = 'open' | 'in_progress' | 'waiting_on_customer' | 'resolved' | 'closed';
+
+export const CASE_SEVERITIES: CaseSeverity[] = ['low', 'medium', 'high', 'critical'];
+export const CASE_STATUSES: CaseStatus[] = ['open', 'in_progress', 'waiting_on_customer', 'resolved', 'closed'];
+
+// Classifier labels that open a case
+export const CASE_CLASSIFICATIONS = ['COMPLAINT', 'ANGRY_CUSTOMER'];
+
+// Business hours until the promised follow-up, by severity
+const SLA_HOURS: Record<CaseSeverity, number> = {
+  critical: 1,
+  high: 2,
+  medium: 4,
+  low: 8,
+};
+
+// Owner for new cases, and for critical ones when set
+const DEFAULT_OWNER = process.env.CASE_DEFAULT_OWNER || null;
+const CRITICAL_OWNER = process.env.CASE_CRITICAL_OWNER || DEFAULT_OWNER;
+
+// Safety, legal or regulatory - someone senior looks at these first
+const CRITICAL_PATTERNS = [
+  /\b(injur(?:y|ed|ies)|hospital|burn(?:ed|s)?|exposure|exposed)\b/i,
+  /\b(spill(?:ed)?|leak(?:ed|ing)?|fire|explo(?:sion|ded))\b/i,
+  /\b(lawyer|attorney|lawsuit|legal action|sue)\b/i,
+  /\b(osha|epa|dot violation)\b/i,
+];
+
+// Wrong, damaged or unusable product, or a customer about to leave
+const HIGH_PATTERNS = [
+  /\b(wrong (?:product|item|grade)|damaged|contaminat(?:ed|ion)|off[- ]spec)\b/i,
+  /\b(refund|charge ?back|cancel(?:l?ing)? (?:my |our |the )?(?:order|account))\b/i,
+  /\b(never again|take our business|switch(?:ing)? suppliers?)\b/i,
+  /\b(production (?:is )?(?:down|stopped)|line (?:is )?down)\b/i,
+];
+
+const ORDER_NUMBER_PATTERN = /\border\s*(?:number|no\.?)?\s*#?\s*(\d{4,})\b|#(\d{4,})\b/i;
+
+export interface SupportCase {
+  id: number;
+  case_number: string;
+  message_id: string;
+  conversation_id: string | null;
+  subject: string | null;
+  classification: string;
+  customer_email: string;
+  customer_name: string | null;
+  order_number: string | null;
+  severity: CaseSeverity;
+  status: CaseStatus;
+  owner: string | null;
+  sla_due_at: string;
+  first_response_at: string | null;
+  resolved_at: string | null;
+  created_at: string;
+  updated_at: string;
+}
+
+export interface CaseNote {
+  id: number;
+  author: string;
+  note: string;
+  note_type: string;
+  created_at: string;
+}
+
+export interface OpenCaseInput {
+  message_id: string;
+  conversation_id?: string;
+  subject?: string;
+  classification: string;
+  customer_email: string;
+  customer_name?: string;
+  text?: string;
+}
+
+export interface OpenCaseResult {
+  case: SupportCase;
+  // False when the email joined a case already open for its thread
+  created: boolean;
+  // The SLA due time as replies state it
+  sla_due_label: string;
+}
+
+export interface CaseUpdate {
+  status?: CaseStatus;
+  owner?: string | null;
+  severity?: CaseSeverity;
+  author?: string;
+}
+
+/**
+ * Whether an email with this classification opens a case
+ */
+export function shouldOpenCase(classification: string | undefined): boolean {
+  return !!classification && CASE_CLASSIFICATIONS.indexOf(classification.toUpperCase()) !== -1;
+}
+
+/**
+ * Severity from the classification and what the email says
+ */
+export function assessSeverity(classification: string, text: string = ''): CaseSeverity {
+  if (CRITICAL_PATTERNS.some(pattern => pattern.test(text))) {
+    return 'critical';
+  }
+  if (classification.toUpperCase() === 'ANGRY_CUSTOMER' || HIGH_PATTERNS.some(pattern => pattern.test(text))) {
+    return 'high';
+  }
+  return 'medium';
+}
+
+/**
+ * The order number an email refers to, if any
+ */
+export function extractOrderNumber(text: string): string | null {
+  const match = text.match(ORDER_NUMBER_PATTERN);
+  return match ? match[1] || match[2] : null;
+}
+
+function higherSeverity(a: CaseSeverity, b: CaseSeverity): CaseSeverity {
+  return CASE_SEVERITIES.indexOf(a) >= CASE_SEVERITIES.indexOf(b) ? a : b;
+}
+
+async function addNote(caseId: number, note: string, noteType: string, author: string = 'system'): Promise<CaseNote> {
+  const result = await pool.query(
+    `INSERT INTO support_case_notes (case_id, author, note, note_type)
+     VALUES ($1, $2, $3, $4)
+     RETURNING id, author, note, note_type, created_at`,
+    [caseId, author, note, noteType]
+  );
+  return result.rows[0];
+}
+
+/**
+ * Open a case for a complaint email. A retry of the same email returns
+ * its case; a follow-up in a thread with an open case joins that case,
+ * raising its severity (and pulling in its SLA) if the follow-up is worse.
+ */
+export async function openCase(input: OpenCaseInput): Promise<OpenCaseResult> {
+  const text = `${input.subject || ''}\n${input.text || ''}`;
+  const severity = assessSeverity(input.classification, text);
+
+  const existingResult = await pool.query(
+    `SELECT * FROM support_cases
+     WHERE message_id = $1
+        OR ($2::text IS NOT NULL AND conversation_id = $2 AND status NOT IN ('resolved', 'closed'))
+     ORDER BY message_id = $1 DESC, created_at DESC
+     LIMIT 1`,
+    [input.message_id, input.conversation_id || null]
+  );
+  const existing: SupportCase | undefined = existingResult.rows[0];
+
+  if (existing) {
+    if (existing.message_id === input.message_id) {
+      return { case: existing, created: false, sla_due_label: formatBusinessTime(new Date(existing.sla_due_at)) };
+    }
+
+    const raised = higherSeverity(existing.severity, severity);
+    const due = getBusinessDueTime(SLA_HOURS[raised]);
+    const updated = await pool.query(
+      `UPDATE support_cases
+       SET severity = $2,
+           sla_due_at = LEAST(sla_due_at, $3),
+           order_number = COALESCE(order_number, $4)
+       WHERE id = $1
+       RETURNING *`,
+      [existing.id, raised, due.due_at, extractOrderNumber(text)]
+    );
+    await addNote(
+      existing.id,
+      `Follow-up email ${input.message_id}${raised !== existing.severity ? ` - severity raised to ${raised}` : ''}`,
+      'follow_up'
+    );
+
+    const supportCase: SupportCase = updated.rows[0];
+    return {
+      case: supportCase,
+      created: false,
+      sla_due_label: formatBusinessTime(new Date(supportCase.sla_due_at)),
+    };
+  }
+
+  const due = getBusinessDueTime(SLA_HOURS[severity]);
+  const owner = severity === 'critical' ? CRITICAL_OWNER : DEFAULT_OWNER;
+
+  const result = await pool.query(
+    `INSERT INTO support_cases (
+      message_id, conversation_id, subject, classification,
+      customer_email, customer_name, order_number,
+      severity, owner, sla_due_at
+    ) VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10)
+    RETURNING *`,
+    [
+      input.message_id,
+      input.conversation_id || null,
+      input.subject || null,
+      input.classification.toUpperCase(),
+      input.customer_email,
+      input.customer_name || null,
+      extractOrderNumber(text),
+      severity,
+      owner,
+      due.due_at,
+    ]
+  );
+
+  const supportCase: SupportCase = result.rows[0];
+  await addNote(supportCase.id, `Opened from ${supportCase.classification} email with ${severity} severity`, 'opened');
+
+  return { case: supportCase, created: true, sla_due_label: due.label };
+}
+
+/**
+ * A case with its notes, oldest first
+ */
+export async function getCase(caseNumber: string): Promise<(SupportCase & { notes: CaseNote[] }) | null> {
+  const result = await pool.query(
+    `SELECT * FROM support_cases WHERE case_number = $1`,
+    [caseNumber]
+  );
+  if (result.rows.length === 0) {
+    return null;
+  }
+
+  const notes = await pool.query(
+    `SELECT id, author, note, note_type, created_at
+     FROM support_case_notes
+     WHERE case_id = $1
+     ORDER BY created_at ASC, id ASC`,
+    [result.rows[0].id]
+  );
+
+  return { ...result.rows[0], notes: notes.rows };
+}
+
+/**
+ * Cases by status and owner, soonest due first. Open cases when no
+ * status is given.
+ */
+export async function listCases(filters: { status?: CaseStatus; owner?: string; overdue?: boolean } = {}): Promise<SupportCase[]> {
+  const conditions: string[] = [];
+  const params: any[] = [];
+
+  if (filters.status) {
+    params.push(filters.status);
+    conditions.push(`status = $${params.length}`);
+  } else {
+    conditions.push(`status NOT IN ('resolved', 'closed')`);
+  }
+  if (filters.owner) {
+    params.push(filters.owner);
+    conditions.push(`owner = $${params.length}`);
+  }
+  if (filters.overdue) {
+    conditions.push(`sla_due_at < NOW() AND first_response_at IS NULL`);
+  }
+
+  const result = await pool.query(
+    `SELECT * FROM support_cases
+     WHERE ${conditions.join(' AND ')}
+     ORDER BY sla_due_at ASC
+     LIMIT 100`,
+    params
+  );
+  return result.rows;
+}
+
+/**
+ * Change a case's status, owner or severity. Each change is recorded as
+ * a note; a raised severity also pulls in the SLA due time. Returns null
+ * when the case doesn't exist.
+ */
+export async function updateCase(caseNumber: string, update: CaseUpdate): Promise<SupportCase | null> {
+  const existingResult = await pool.query(
+    `SELECT * FROM support_cases WHERE case_number = $1`,
+    [caseNumber]
+  );
+  const existing: SupportCase | undefined = existingResult.rows[0];
+  if (!existing) {
+    return null;
+  }
+
+  const status = update.status || existing.status;
+  const owner = update.owner !== undefined ? update.owner : existing.owner;
+  const severity = update.severity || existing.severity;
+  const closing = status === 'resolved' || status === 'closed';
+
+  // A raised severity pulls the SLA in, as a worse follow-up email does
+  const raised = CASE_SEVERITIES.indexOf(severity) > CASE_SEVERITIES.indexOf(existing.severity);
+  const due = raised ? getBusinessDueTime(SLA_HOURS[severity]).due_at : null;
+
+  const result = await pool.query(
+    `UPDATE support_cases
+     SET status = $2,
+         owner = $3,
+         severity = $4,
+         resolved_at = CASE WHEN $5 THEN COALESCE(resolved_at, NOW()) ELSE NULL END,
+         sla_due_at = LEAST(sla_due_at, COALESCE($6, sla_due_at))
+     WHERE id = $1
+     RETURNING *`,
+    [existing.id, status, owner, severity, closing, due]
+  );
+
+  const author = update.author || 'system';
+  if (status !== existing.status) {
+    await addNote(existing.id, `Status changed from ${existing.status} to ${status}`, 'status_change', author);
+  }
+  if (owner !== existing.owner) {
+    await addNote(existing.id, owner ? `Assigned to ${owner}` : 'Unassigned', 'assignment', author);
+  }
+  if (severity !== existing.severity) {
+    await addNote(existing.id, `Severity changed from ${existing.severity} to ${severity}`, 'severity_change', author);
+  }
+
+  return result.rows[0];
+}
+
+/**
+ * Add a note to a case. Returns null when the case doesn't exist.
+ */
+export async function addCaseNote(caseNumber: string, note: string, author: string = 'unknown'): Promise<CaseNote | null> {
+  const result = await pool.query(
+    `SELECT id FROM support_cases WHERE case_number = $1`,
+    [caseNumber]
+  );
+  if (result.rows.length === 0) {
+    return null;
+  }
+
+  return addNote(result.rows[0].id, note, 'note', author);
+}
@@ -0,0 +1,10 @@
+import { Pool } from 'pg';
+
+/**
+ * Shared connection pool for in-process callers (tools, agent).
+ * Reused across requests so tool calls don't open a new Client each time.
+ */
+export const pool = new Pool({
+  connectionString: process.env.DATABASE_URL,
+  max: parseInt(process.env.DATABASE_POOL_SIZE || '5'),
+});
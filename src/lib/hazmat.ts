@@ -0,0 +1,309 @@
+/**
+ * Hazmat shipping compliance: from each item's UN number, hazard class,
+ * packing group and container size, works out the service modes allowed,
+ * the labels and documents the shipment needs, and destinations it
+ * can't go to (PO boxes, residences, Alaska/Hawaii for some classes).
+ *
+ * A simplified reading of 49 CFR for ground shipments - findings are for
+ * quoting and replies, the shipping team still classifies the shipment.
+ */
+
+export type HazmatServiceMode = 'ups_ground' | 'limited_quantity' | 'ltl' | 'air';
+
+export interface HazmatItem {
+  sku?: string;
+  un_number?: string | null;
+  hazard_class?: string | null;
+  packing_group?: string | null;
+  container_size?: string | null;
+  container_type?: string | null;
+  quantity: number;
+}
+
+export interface HazmatDestination {
+  zip?: string;
+  state?: string;
+  street?: string;
+  po_box?: boolean;
+  residential?: boolean;
+}
+
+export interface HazmatItemFinding {
+  sku?: string;
+  un_number?: string;
+  // Class number, e.g. "3", "6.1"
+  hazard_class: string;
+  packing_group?: string;
+  limited_quantity: boolean;
+  ltl_only: boolean;
+  reasons: string[];
+}
+
+export interface HazmatRestriction {
+  code: 'po_box' | 'residential' | 'alaska_hawaii';
+  message: string;
+}
+
+export interface HazmatCompliance {
+  hazmat: boolean;
+  items: HazmatItemFinding[];
+  allowed_modes: HazmatServiceMode[];
+  ltl_only: boolean;
+  air_allowed: boolean;
+  labels: string[];
+  documents: string[];
+  restrictions: HazmatRestriction[];
+  // False when a restriction blocks shipping to the destination
+  can_ship: boolean;
+  // One line per constraint, for replies and quote notes
+  constraints: string[];
+}
+
+// Hazard label per class (division labels fall back to the class)
+const CLASS_LABELS: Record<string, string> = {
+  '1': 'Explosive (Class 1)',
+  '2.1': 'Flammable Gas (Class 2.1)',
+  '2.2': 'Non-Flammable Gas (Class 2.2)',
+  '2.3': 'Poison Gas (Class 2.3)',
+  '3': 'Flammable Liquid (Class 3)',
+  '4.1': 'Flammable Solid (Class 4.1)',
+  '4.2': 'Spontaneously Combustible (Class 4.2)',
+  '4.3': 'Dangerous When Wet (Class 4.3)',
+  '5.1': 'Oxidizer (Class 5.1)',
+  '5.2': 'Organic Peroxide (Class 5.2)',
+  '6.1': 'Poison (Class 6.1)',
+  '7': 'Radioactive (Class 7)',
+  '8': 'Corrosive (Class 8)',
+  '9': 'Miscellaneous Dangerous Goods (Class 9)',
+};
+
+// Largest inner container (liters) that still ships as a limited
+// quantity, by packing group. PG I never qualifies.
+const LIMITED_QUANTITY_LITERS: Record<string, number> = {
+  II: 1,
+  III: 5,
+};
+
+// Classes that can ship as limited quantities at all
+const LIMITED_QUANTITY_CLASSES = ['2.1', '2.2', '3', '4.1', '5.1', '5.2', '6.1', '8', '9'];
+
+// Classes UPS Ground won't carry under a hazmat contract
+const NO_PARCEL_CLASSES = ['1', '2.3', '4.2', '4.3', '7'];
+
+// Containers over this size (liters) ship freight
+const MAX_PARCEL_CONTAINER_LITERS = 30 * 3.785;
+
+// Classes that can't reach Alaska or Hawaii by ground, unless limited quantity
+const NO_ALASKA_HAWAII_CLASSES = ['1', '2.1', '2.3', '3', '4.1', '4.2', '4.3', '5.1', '5.2', '6.1', '7', '8'];
+
+const PO_BOX_PATTERN = /\bp\.?\s*o\.?\s*box\b|\bpost\s+office\s+box\b/i;
+
+const LITERS_PER_UNIT: Record<string, number> = {
+  gallon: 3.785,
+  gal: 3.785,
+  quart: 0.946,
+  qt: 0.946,
+  pint: 0.473,
+  pt: 0.473,
+  liter: 1,
+  l: 1,
+  ml: 0.001,
+  // Solids by weight, treated as kg against the same limits
+  lb: 0.4536,
+  lbs: 0.4536,
+  pound: 0.4536,
+  kg: 1,
+};
+
+/**
+ * "Class 8 - Corrosive" -> "8", "6.1" -> "6.1"
+ */
+export function parseHazardClass(hazardClass: string | null | undefined): string | null {
+  const match = (hazardClass || '').match(/(\d(?:\.\d)?)/);
+  return match ? match[1] : null;
+}
+
+/**
+ * "PG II", "ii", "2" -> "II"
+ */
+export function parsePackingGroup(packingGroup: string | null | undefined): string | null {
+  const text = (packingGroup || '').toUpperCase().replace(/PG|PACKING\s*GROUP/g, '').trim();
+  const numerals: Record<string, string> = { '1': 'I', '2': 'II', '3': 'III', I: 'I', II: 'II', III: 'III' };
+  return numerals[text] || null;
+}
+
+/**
+ * Container capacity in liters, when the size says
+ */
+function containerLiters(item: HazmatItem): number | null {
+  const text = `${item.container_size || ''} ${item.container_type || ''}`.toLowerCase();
+  if (/\btote\b|\bibc\b/.test(text)) return 1041;
+  if (/\bdrum\b/.test(text) && !/\d/.test(text)) return 208;
+
+  const match = text.match(/(\d+(?:\.\d+)?)\s*-?\s*(gallons?|gal|quarts?|qt|pints?|pt|liters?|l|ml|lbs?|pounds?|kg)\b/);
+  if (!match) return null;
+  const unit = match[2].replace(/s$/, '');
+  return parseFloat(match[1]) * (LITERS_PER_UNIT[unit] || 1);
+}
+
+/**
+ * Whether the ZIP code is in Alaska, Hawaii or a territory with no ground service
+ */
+function isNonContiguous(destination: HazmatDestination): boolean {
+  const state = (destination.state || '').trim().toUpperCase();
+  if (['AK', 'HI', 'PR', 'GU', 'VI', 'ALASKA', 'HAWAII'].indexOf(state) !== -1) {
+    return true;
+  }
+
+  const zip3 = (destination.zip || '').replace(/\D/g, '').slice(0, 3);
+  return zip3.length === 3 && (
+    (zip3 >= '995' && zip3 <= '999') ||
+    (zip3 >= '967' && zip3 <= '969') ||
+    (zip3 >= '006' && zip3 <= '009')
+  );
+}
+
+function addUnique(list: string[], value: string): void {
+  if (list.indexOf(value) === -1) list.push(value);
+}
+
+/**
+ * Check a shipment's items against the hazmat rules for a destination.
+ * Items without a hazard class are not regulated and add no constraints.
+ */
+export function checkHazmatCompliance(items: HazmatItem[], destination: HazmatDestination = {}): HazmatCompliance {
+  const findings: HazmatItemFinding[] = [];
+  const labels: string[] = [];
+  const documents: string[] = [];
+
+  items.forEach(item => {
+    const hazardClass = parseHazardClass(item.hazard_class);
+    if (!hazardClass) return;
+
+    const packingGroup = parsePackingGroup(item.packing_group);
+    const liters = containerLiters(item);
+    const reasons: string[] = [];
+
+    const limitLiters = packingGroup ? LIMITED_QUANTITY_LITERS[packingGroup] : undefined;
+    const limitedQuantity = LIMITED_QUANTITY_CLASSES.indexOf(hazardClass) !== -1 &&
+      limitLiters !== undefined &&
+      liters !== null &&
+      liters <= limitLiters;
+    if (limitedQuantity) {
+      reasons.push(`Limited quantity: ${item.container_size} is within the ${limitLiters} L limit for PG ${packingGroup}`);
+    } else if (!packingGroup) {
+      reasons.push('Packing group unknown - shipped fully regulated');
+    }
+
+    let ltlOnly = false;
+    if (NO_PARCEL_CLASSES.indexOf(hazardClass) !== -1) {
+      ltlOnly = true;
+      reasons.push(`Class ${hazardClass} is not accepted by UPS Ground`);
+    } else if (hazardClass === '6.1' && packingGroup === 'I') {
+      ltlOnly = true;
+      reasons.push('Class 6.1 PG I is not accepted by UPS Ground');
+    } else if (liters !== null && liters > MAX_PARCEL_CONTAINER_LITERS) {
+      ltlOnly = true;
+      reasons.push(`${item.container_size || 'Container'} is too large for parcel hazmat service`);
+    }
+
+    findings.push({
+      sku: item.sku,
+      un_number: item.un_number || undefined,
+      hazard_class: hazardClass,
+      packing_group: packingGroup || undefined,
+      limited_quantity: limitedQuantity,
+      ltl_only: ltlOnly,
+      reasons,
+    });
+
+    if (limitedQuantity) {
+      addUnique(labels, 'Limited Quantity mark');
+    } else {
+      addUnique(labels, CLASS_LABELS[hazardClass] || CLASS_LABELS[hazardClass.split('.')[0]] || `Class ${hazardClass}`);
+      addUnique(labels, item.un_number ? `${item.un_number} marking with proper shipping name` : 'UN number marking with proper shipping name');
+      if (liters !== null && liters < MAX_PARCEL_CONTAINER_LITERS) {
+        addUnique(labels, 'Orientation arrows');
+      }
+    }
+  });
+
+  const hazmat = findings.length > 0;
+  const ltlOnly = findings.some(finding => finding.ltl_only);
+  const fullyRegulated = findings.filter(finding => !finding.limited_quantity);
+
+  let allowedModes: HazmatServiceMode[];
+  if (!hazmat) {
+    allowedModes = ['ups_ground', 'ltl', 'air'];
+  } else if (ltlOnly) {
+    allowedModes = ['ltl'];
+  } else if (fullyRegulated.length === 0) {
+    allowedModes = ['limited_quantity', 'ups_ground', 'ltl'];
+  } else {
+    allowedModes = ['ups_ground', 'ltl'];
+  }
+
+  if (fullyRegulated.length > 0) {
+    addUnique(documents, 'Hazmat shipping papers (UN number, proper shipping name, class, packing group)');
+    addUnique(documents, '24-hour emergency response phone number');
+    addUnique(documents, 'Emergency response information (SDS)');
+    if (ltlOnly) {
+      addUnique(documents, 'Bill of lading with hazmat entries; placards at 1,001 lb or more');
+    } else {
+      addUnique(documents, 'UPS hazmat contract shipping label');
+    }
+  }
+
+  const restrictions: HazmatRestriction[] = [];
+  if (hazmat) {
+    if (destination.po_box || PO_BOX_PATTERN.test(destination.street || '')) {
+      restrictions.push({ code: 'po_box', message: 'Hazmat cannot ship to a PO box - a street address is needed' });
+    }
+
+    if (destination.residential && fullyRegulated.length > 0) {
+      restrictions.push({
+        code: 'residential',
+        message: ltlOnly
+          ? 'Hazmat freight cannot be delivered to a residence - a business address with a dock or forklift is needed'
+          : 'Fully regulated hazmat cannot be delivered to a residence - a business address is needed',
+      });
+    }
+
+    const blockedClasses: string[] = [];
+    fullyRegulated.forEach(finding => {
+      if (NO_ALASKA_HAWAII_CLASSES.indexOf(finding.hazard_class) !== -1) addUnique(blockedClasses, finding.hazard_class);
+    });
+    if (blockedClasses.length > 0 && isNonContiguous(destination)) {
+      restrictions.push({
+        code: 'alaska_hawaii',
+        message: `Class ${blockedClasses.join(', ')} hazmat cannot ship by ground to Alaska, Hawaii or US territories - our shipping team will quote ocean freight`,
+      });
+    }
+  }
+
+  const constraints: string[] = [];
+  if (hazmat) {
+    if (ltlOnly) {
+      constraints.push('Ships by LTL freight only');
+    } else if (fullyRegulated.length === 0) {
+      constraints.push('Ships by ground as a limited quantity');
+    } else {
+      constraints.push('Ships by UPS Ground hazmat service or LTL freight');
+    }
+    constraints.push('No air shipping');
+    restrictions.forEach(restriction => constraints.push(restriction.message));
+  }
+
+  return {
+    hazmat,
+    items: findings,
+    allowed_modes: allowedModes,
+    ltl_only: ltlOnly,
+    air_allowed: !hazmat,
+    labels,
+    documents,
+    restrictions,
+    can_ship: restrictions.length === 0,
+    constraints,
+  };
+}
@@ -0,0 +1,51 @@
+import { pool } from '@/lib/db';
+
+export interface KnowledgeFact {
+  id: number;
+  fact_key: string;
+  category: string;
+  content: string;
+  // Intents the fact applies to; empty means every reply
+  intents: string[];
+  priority: number;
+  effective_from: string;
+  effective_until: string | null;
+}
+
+/**
+ * Load the facts that are active and in effect right now
+ */
+export async function loadCurrentFacts(): Promise<KnowledgeFact[]> {
+  const result = await pool.query(
+    `SELECT id, fact_key, category, content, intents, priority,
+            effective_from, effective_until
+     FROM knowledge_facts
+     WHERE is_active = true
+       AND (effective_from IS NULL OR effective_from <= NOW())
+       AND (effective_until IS NULL OR effective_until > NOW())
+     ORDER BY priority DESC, category, fact_key`
+  );
+
+  return result.rows;
+}
+
+/**
+ * Keep only the facts relevant to an intent
+ */
+export function factsForIntent(facts: KnowledgeFact[], intent: string): KnowledgeFact[] {
+  return facts.filter(fact =>
+    !fact.intents || fact.intents.length === 0 || fact.intents.indexOf(intent) !== -1
+  );
+}
+
+/**
+ * Format facts as a prompt block
+ */
+export function formatFacts(facts: KnowledgeFact[]): string {
+  if (facts.length === 0) {
+    return '';
+  }
+
+  return 'COMPANY FACTS (current - only state company details listed here):\n' +
+    facts.map(fact => `- ${fact.content}`).join('\n');
+}
@@ -0,0 +1,44 @@
+import { LocalProvider } from './local';
+import { MeteredProvider } from './metered';
+import { OpenAIProvider } from './openai';
+import type { LLMProvider } from './types';
+
+export * from './types';
+export { LocalProvider } from './local';
+export { OpenAIProvider } from './openai';
+export { MeteredProvider } from './metered';
+export {
+  runWithUsageTags,
+  getUsageTags,
+  estimateCost,
+  getBudgetStatus,
+  alertOnBudgets,
+} from './usage';
+export type { UsageTags, UsageRecord, ModelPricing, BudgetStatus } from './usage';
+
+// Dimension of product embeddings stored in pgvector
+export const EMBEDDING_DIMENSIONS = 1536;
+
+let provider: LLMProvider | null = null;
+
+/**
+ * The configured LLM provider (LLM_PROVIDER=openai|local, default openai).
+ * Calls are metered into llm_usage.
+ */
+export function getLLMProvider(): LLMProvider {
+  if (!provider) {
+    provider = new MeteredProvider(
+      process.env.LLM_PROVIDER === 'local'
+        ? new LocalProvider()
+        : new OpenAIProvider()
+    );
+  }
+  return provider;
+}
+
+/**
+ * Replace the provider, e.g. with a LocalProvider loaded with fixtures
+ */
+export function setLLMProvider(next: LLMProvider): void {
+  provider = new MeteredProvider(next);
+}
@@ -0,0 +1,120 @@
+import { readFileSync } from 'fs';
+import type { ChatMessage, ChatRequest, ChatResult, LLMProvider } from './types';
+
+/**
+ * Canned reply for requests whose last user message contains `match`
+ */
+export interface ChatFixture {
+  match: string;
+  content?: string;
+  tool_calls?: Array<{ name: string; arguments: Record<string, any> }>;
+}
+
+const DEFAULT_EMBEDDING_DIMENSIONS = 1536;
+const LOCAL_MODEL = 'local-echo';
+const LOCAL_EMBEDDING_MODEL = 'local-hash';
+
+/**
+ * 32-bit FNV-1a hash
+ */
+function fnv1a(text: string): number {
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < text.length; i++) {
+    hash ^= text.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return hash >>> 0;
+}
+
+function loadFixtures(path?: string): ChatFixture[] {
+  if (!path) {
+    return [];
+  }
+
+  try {
+    const parsed = JSON.parse(readFileSync(path, 'utf8'));
+    return Array.isArray(parsed) ? parsed : parsed.chat || [];
+  } catch (error) {
+    console.error(`Failed to load LLM fixtures from ${path}:`, error);
+    return [];
+  }
+}
+
+function lastMessage(messages: ChatMessage[], role?: string): ChatMessage | undefined {
+  for (let i = messages.length - 1; i >= 0; i--) {
+    if (!role || messages[i].role === role) return messages[i];
+  }
+  return undefined;
+}
+
+/**
+ * Deterministic offline provider for development and CI.
+ * Chat answers from fixtures, or echoes the last user message; embeddings
+ * are hashed bags of words, so texts sharing words are similar.
+ */
+export class LocalProvider implements LLMProvider {
+  name = 'local';
+  canPlanTools: boolean;
+  embeddingModel = LOCAL_EMBEDDING_MODEL;
+  private fixtures: ChatFixture[];
+
+  constructor(fixtures: ChatFixture[] = loadFixtures(process.env.LLM_FIXTURES_PATH)) {
+    this.fixtures = fixtures;
+    this.canPlanTools = fixtures.some(fixture => !!fixture.tool_calls?.length);
+  }
+
+  async chat(request: ChatRequest): Promise<ChatResult> {
+    const userText = lastMessage(request.messages, 'user')?.content || '';
+    const fixture = this.fixtures.find(f => userText.toLowerCase().indexOf(f.match.toLowerCase()) !== -1);
+
+    // Only request tools in answer to the user, not again after tool results
+    const answeringUser = lastMessage(request.messages)?.role === 'user';
+    const toolCalls = answeringUser && request.tools?.length && fixture?.tool_calls
+      ? fixture.tool_calls.map((call, i) => ({
+          id: `local_${i}_${fnv1a(call.name + JSON.stringify(call.arguments)).toString(16)}`,
+          name: call.name,
+          arguments: JSON.stringify(call.arguments),
+        }))
+      : [];
+
+    let content: string | null = toolCalls.length > 0 ? null : (fixture?.content ?? userText);
+    if (content && request.max_tokens) {
+      // Roughly 4 characters per token
+      content = content.substring(0, request.max_tokens * 4);
+    }
+
+    if (content && request.onToken) {
+      const onToken = request.onToken;
+      content.split(/(?=\s)/).forEach(chunk => onToken(chunk));
+    }
+
+    return {
+      content,
+      tool_calls: toolCalls,
+      model: LOCAL_MODEL,
+      usage: {
+        prompt_tokens: Math.ceil(request.messages.reduce((sum, m) => sum + (m.content || '').length, 0) / 4),
+        completion_tokens: Math.ceil((content || '').length / 4),
+      },
+    };
+  }
+
+  async embed(input: string, dimensions: number = DEFAULT_EMBEDDING_DIMENSIONS): Promise<number[]> {
+    const vector: number[] = [];
+    for (let i = 0; i < dimensions; i++) vector.push(0);
+
+    const words = input.toLowerCase().match(/[a-z0-9]+/g) || [];
+    words.forEach(word => {
+      const hash = fnv1a(word);
+      vector[hash % dimensions] += (hash & 0x80000000) ? -1 : 1;
+    });
+
+    const norm = Math.sqrt(vector.reduce((sum, v) => sum + v * v, 0));
+    if (norm === 0) {
+      vector[0] = 1;
+      return vector;
+    }
+
+    return vector.map(v => v / norm);
+  }
+}
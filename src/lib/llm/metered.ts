@@ -0,0 +1,66 @@
+import type { ChatRequest, ChatResult, LLMProvider } from './types';
+import { estimateTokens, getUsageTags, recordUsage } from './usage';
+
+/**
+ * Wraps a provider so every chat and embedding call records its tokens,
+ * latency and cost, tagged with the current usage tags.
+ */
+export class MeteredProvider implements LLMProvider {
+  constructor(private inner: LLMProvider) {}
+
+  get name(): string {
+    return this.inner.name;
+  }
+
+  get canPlanTools(): boolean {
+    return this.inner.canPlanTools;
+  }
+
+  get embeddingModel(): string {
+    return this.inner.embeddingModel;
+  }
+
+  async chat(request: ChatRequest): Promise<ChatResult> {
+    const tags = getUsageTags();
+    const start = Date.now();
+    const result = await this.inner.chat(request);
+
+    // Streamed completions don't report usage, so estimate from the text
+    const usage = result.usage || {
+      prompt_tokens: estimateTokens(request.messages.map(m => m.content || '').join('\n')),
+      completion_tokens: estimateTokens(result.content || ''),
+    };
+
+    recordUsage({
+      ...tags,
+      provider: this.inner.name,
+      model: result.model,
+      operation: 'chat',
+      prompt_tokens: usage.prompt_tokens,
+      completion_tokens: usage.completion_tokens,
+      tokens_estimated: !result.usage,
+      latency_ms: Date.now() - start,
+    });
+
+    return result;
+  }
+
+  async embed(input: string, dimensions?: number): Promise<number[]> {
+    const tags = getUsageTags();
+    const start = Date.now();
+    const embedding = await this.inner.embed(input, dimensions);
+
+    recordUsage({
+      ...tags,
+      provider: this.inner.name,
+      model: this.inner.embeddingModel,
+      operation: 'embedding',
+      prompt_tokens: estimateTokens(input),
+      completion_tokens: 0,
+      tokens_estimated: true,
+      latency_ms: Date.now() - start,
+    });
+
+    return embedding;
+  }
+}
@@ -0,0 +1,116 @@
+import OpenAI from 'openai';
+import { callUpstream } from '@/lib/resilience';
+import type { ChatMessage, ChatRequest, ChatResult, LLMProvider, LLMToolSpec } from './types';
+
+const DEFAULT_CHAT_MODEL = 'gpt-4-turbo-preview';
+const EMBEDDING_MODEL = 'text-embedding-3-small';
+
+function toOpenAIMessage(message: ChatMessage): OpenAI.Chat.Completions.ChatCompletionMessageParam {
+  if (message.role === 'tool') {
+    return { role: 'tool', tool_call_id: message.tool_call_id || '', content: message.content || '' };
+  }
+
+  if (message.role === 'assistant') {
+    return {
+      role: 'assistant',
+      content: message.content,
+      tool_calls: message.tool_calls?.length
+        ? message.tool_calls.map(call => ({
+            id: call.id,
+            type: 'function' as const,
+            function: { name: call.name, arguments: call.arguments },
+          }))
+        : undefined,
+    };
+  }
+
+  return { role: message.role, content: message.content || '' };
+}
+
+function toOpenAITool(tool: LLMToolSpec): OpenAI.Chat.Completions.ChatCompletionTool {
+  return {
+    type: 'function',
+    function: {
+      name: tool.name,
+      description: tool.description,
+      parameters: tool.parameters,
+    },
+  };
+}
+
+/**
+ * OpenAI chat completions and embeddings. Timeouts, retries and the
+ * circuit breaker come from the resilience layer, not the SDK.
+ */
+export class OpenAIProvider implements LLMProvider {
+  name = 'openai';
+  canPlanTools: boolean;
+  embeddingModel = EMBEDDING_MODEL;
+  private client: OpenAI;
+
+  constructor(apiKey: string | undefined = process.env.OPENAI_API_KEY) {
+    this.client = new OpenAI({ apiKey, maxRetries: 0 });
+    this.canPlanTools = !!apiKey;
+  }
+
+  async chat(request: ChatRequest): Promise<ChatResult> {
+    const params = {
+      model: request.model || process.env.OPENAI_LLM_MODEL || DEFAULT_CHAT_MODEL,
+      messages: request.messages.map(toOpenAIMessage),
+      temperature: request.temperature,
+      max_tokens: request.max_tokens,
+      ...(request.tools?.length
+        ? { tools: request.tools.map(toOpenAITool), tool_choice: 'auto' as const }
+        : {}),
+    };
+
+    if (request.onToken) {
+      const onToken = request.onToken;
+      // Streamed tokens can't be taken back, so a stream is never retried
+      const content = await callUpstream('openai', signal => {
+        const stream = this.client.beta.chat.completions.stream(params, { signal });
+        stream.on('content', (delta: string) => onToken(delta));
+        return stream.finalContent();
+      }, { retries: 0 });
+
+      return {
+        content,
+        tool_calls: [],
+        model: params.model,
+      };
+    }
+
+    const completion = await callUpstream('openai', signal =>
+      this.client.chat.completions.create(params, { signal })
+    );
+    const message = completion.choices[0].message;
+
+    return {
+      content: message.content,
+      tool_calls: (message.tool_calls || []).map(call => ({
+        id: call.id,
+        name: call.function.name,
+        arguments: call.function.arguments,
+      })),
+      model: completion.model,
+      usage: completion.usage
+        ? {
+            prompt_tokens: completion.usage.prompt_tokens,
+            completion_tokens: completion.usage.completion_tokens,
+          }
+        : undefined,
+    };
+  }
+
+  async embed(input: string, dimensions?: number): Promise<number[]> {
+    const response = await callUpstream('openai', signal =>
+      this.client.embeddings.create({
+        model: EMBEDDING_MODEL,
+        input,
+        ...(dimensions ? { dimensions } : {}),
+      }, { signal })
+    );
+
+    return response.data[0].embedding;
+  }
+}
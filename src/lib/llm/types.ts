@@ -0,0 +1,59 @@
+export type ChatRole = 'system' | 'user' | 'assistant' | 'tool';
+
+export interface LLMToolCall {
+  id: string;
+  name: string;
+  // JSON-encoded arguments, as the model produced them
+  arguments: string;
+}
+
+export interface ChatMessage {
+  role: ChatRole;
+  content: string | null;
+  // Set on assistant messages that requested tools
+  tool_calls?: LLMToolCall[];
+  // Set on tool messages, answering the call with this ID
+  tool_call_id?: string;
+}
+
+/**
+ * A tool the model may call (the registry's ToolDefinition fits this shape)
+ */
+export interface LLMToolSpec {
+  name: string;
+  description: string;
+  parameters: Record<string, any>;
+}
+
+export interface ChatRequest {
+  messages: ChatMessage[];
+  model?: string;
+  temperature?: number;
+  max_tokens?: number;
+  tools?: LLMToolSpec[];
+  // Streams content deltas when given
+  onToken?: (delta: string) => void;
+}
+
+export interface TokenUsage {
+  prompt_tokens: number;
+  completion_tokens: number;
+}
+
+export interface ChatResult {
+  content: string | null;
+  tool_calls: LLMToolCall[];
+  model: string;
+  // Not every provider/mode reports usage
+  usage?: TokenUsage;
+}
+
+export interface LLMProvider {
+  name: string;
+  // Whether chat() can plan tool calls (the agent uses regex routing otherwise)
+  canPlanTools: boolean;
+  // Model used by embed(), for usage accounting
+  embeddingModel: string;
+  chat(request: ChatRequest): Promise<ChatResult>;
+  embed(input: string, dimensions?: number): Promise<number[]>;
+}
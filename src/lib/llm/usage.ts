@@ -0,0 +1,240 @@
+import { AsyncLocalStorage } from 'async_hooks';
+import { pool } from '@/lib/db';
+
+/**
+ * What an LLM call was made for. Set with runWithUsageTags around a
+ * request so calls deep in tools are attributed without threading IDs.
+ */
+export interface UsageTags {
+  route?: string;
+  category?: string;
+  request_id?: string;
+  message_id?: string;
+}
+
+export interface UsageRecord extends UsageTags {
+  provider: string;
+  model: string;
+  operation: 'chat' | 'embedding';
+  prompt_tokens: number;
+  completion_tokens: number;
+  tokens_estimated: boolean;
+  latency_ms: number;
+}
+
+export interface ModelPricing {
+  // USD per million tokens
+  prompt: number;
+  completion: number;
+}
+
+export interface BudgetStatus {
+  id: number;
+  name: string;
+  scope: 'total' | 'route' | 'category' | 'model';
+  scope_value: string | null;
+  period: 'day' | 'month';
+  limit_usd: number;
+  spent_usd: number;
+  exceeded: boolean;
+}
+
+// List prices, matched by model name prefix (longest wins).
+// Override or extend with LLM_PRICING='{"model": {"prompt": 1, "completion": 2}}'
+const DEFAULT_PRICING: Record<string, ModelPricing> = {
+  'gpt-4-turbo': { prompt: 10, completion: 30 },
+  'gpt-4-0125-preview': { prompt: 10, completion: 30 },
+  'gpt-4-1106-preview': { prompt: 10, completion: 30 },
+  'gpt-4o-mini': { prompt: 0.15, completion: 0.6 },
+  'gpt-4o': { prompt: 2.5, completion: 10 },
+  'gpt-4': { prompt: 30, completion: 60 },
+  'gpt-3.5-turbo': { prompt: 0.5, completion: 1.5 },
+  'text-embedding-3-small': { prompt: 0.02, completion: 0 },
+  'text-embedding-3-large': { prompt: 0.13, completion: 0 },
+  'local': { prompt: 0, completion: 0 },
+};
+
+// Budgets are re-checked at most this often per process
+const BUDGET_CHECK_INTERVAL_MS = 5 * 60 * 1000;
+
+const usageStorage = new AsyncLocalStorage<UsageTags>();
+
+let pricing: Record<string, ModelPricing> | null = null;
+let lastBudgetCheck = 0;
+// Budgets already alerted on, keyed by budget and period, so each alerts once
+const alerted: Record<string, boolean> = {};
+
+/**
+ * Run fn with usage tags merged over the current ones
+ */
+export function runWithUsageTags<T>(tags: UsageTags, fn: () => T): T {
+  return usageStorage.run({ ...usageStorage.getStore(), ...tags }, fn);
+}
+
+export function getUsageTags(): UsageTags {
+  return usageStorage.getStore() || {};
+}
+
+function loadPricing(): Record<string, ModelPricing> {
+  if (!pricing) {
+    pricing = { ...DEFAULT_PRICING };
+    if (process.env.LLM_PRICING) {
+      try {
+        pricing = { ...pricing, ...JSON.parse(process.env.LLM_PRICING) };
+      } catch (error) {
+        console.error('Invalid LLM_PRICING, using default prices:', error);
+      }
+    }
+  }
+  return pricing!;
+}
+
+/**
+ * Price of a model, matching dated names like gpt-4-turbo-2024-04-09
+ */
+export function getModelPricing(model: string): ModelPricing | null {
+  const prices = loadPricing();
+  const match = Object.keys(prices)
+    .filter(prefix => model.indexOf(prefix) === 0)
+    .sort((a, b) => b.length - a.length)[0];
+
+  return match ? prices[match] : null;
+}
+
+/**
+ * Estimated cost in USD; unknown models cost 0 and are logged
+ */
+export function estimateCost(model: string, promptTokens: number, completionTokens: number): number {
+  const price = getModelPricing(model);
+  if (!price) {
+    console.warn(`No pricing for model ${model}, recording cost as 0`);
+    return 0;
+  }
+  return (promptTokens * price.prompt + completionTokens * price.completion) / 1000000;
+}
+
+/**
+ * Rough token count for providers that don't report usage (~4 chars per token)
+ */
+export function estimateTokens(text: string): number {
+  return Math.ceil(text.length / 4);
+}
+
+/**
+ * Persist one call's usage. Failures are logged, never thrown - accounting
+ * must not break the caller.
+ */
+export async function recordUsage(record: UsageRecord): Promise<void> {
+  const cost = estimateCost(record.model, record.prompt_tokens, record.completion_tokens);
+
+  try {
+    await pool.query(
+      `INSERT INTO llm_usage (
+        route,
+        category,
+        request_id,
+        message_id,
+        provider,
+        model,
+        operation,
+        prompt_tokens,
+        completion_tokens,
+        tokens_estimated,
+        estimated_cost,
+        latency_ms
+      ) VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10, $11, $12)`,
+      [
+        record.route || 'unknown',
+        record.category || null,
+        record.request_id || null,
+        record.message_id || null,
+        record.provider,
+        record.model,
+        record.operation,
+        record.prompt_tokens,
+        record.completion_tokens,
+        record.tokens_estimated,
+        cost,
+        record.latency_ms,
+      ]
+    );
+  } catch (error) {
+    console.error('Failed to record LLM usage:', error);
+    return;
+  }
+
+  if (Date.now() - lastBudgetCheck > BUDGET_CHECK_INTERVAL_MS) {
+    lastBudgetCheck = Date.now();
+    alertOnBudgets().catch(error => console.error('Budget check failed:', error));
+  }
+}
+
+/**
+ * Spend against every active budget in its current period
+ */
+export async function getBudgetStatus(): Promise<BudgetStatus[]> {
+  const result = await pool.query(
+    `SELECT
+      b.id, b.name, b.scope, b.scope_value, b.period, b.limit_usd,
+      COALESCE((
+        SELECT SUM(u.estimated_cost)
+        FROM llm_usage u
+        WHERE u.created_at >= date_trunc(b.period, NOW())
+          AND (
+            b.scope = 'total'
+            OR (b.scope = 'route' AND u.route = b.scope_value)
+            OR (b.scope = 'category' AND u.category = b.scope_value)
+            OR (b.scope = 'model' AND u.model LIKE b.scope_value || '%')
+          )
+      ), 0) as spent_usd
+    FROM llm_budgets b
+    WHERE b.is_active = true
+    ORDER BY b.name`
+  );
+
+  return result.rows.map(row => {
+    const limit = parseFloat(row.limit_usd);
+    const spent = parseFloat(row.spent_usd);
+    return {
+      id: row.id,
+      name: row.name,
+      scope: row.scope,
+      scope_value: row.scope_value,
+      period: row.period,
+      limit_usd: limit,
+      spent_usd: Math.round(spent * 10000) / 10000,
+      exceeded: spent > limit,
+    };
+  });
+}
+
+/**
+ * Log and record a metric for each budget newly over its limit
+ */
+export async function alertOnBudgets(): Promise<BudgetStatus[]> {
+  const exceeded = (await getBudgetStatus()).filter(budget => budget.exceeded);
+  const now = new Date();
+  const periodKey = now.toISOString().substring(0, 10);
+
+  for (const budget of exceeded) {
+    const key = `${budget.id}:${budget.period === 'month' ? periodKey.substring(0, 7) : periodKey}`;
+    if (alerted[key]) continue;
+    alerted[key] = true;
+
+    console.warn(
+      `LLM budget "${budget.name}" exceeded: $${budget.spent_usd.toFixed(2)} of $${budget.limit_usd.toFixed(2)} this ${budget.period}`
+    );
+
+    try {
+      await pool.query(
+        `INSERT INTO system_metrics (metric_name, metric_value, metric_unit, component)
+         VALUES ($1, $2, 'usd', 'llm')`,
+        [`budget_exceeded:${budget.name}`, budget.spent_usd]
+      );
+    } catch (error) {
+      console.error('Failed to record budget alert:', error);
+    }
+  }
+
+  return exceeded;
+}
@@ -0,0 +1,218 @@
+import { createHash } from 'crypto';
+import { pool } from '@/lib/db';
+import { EMBEDDING_DIMENSIONS, getLLMProvider } from '@/lib/llm';
+
+export type SpecSource = 'specs' | 'description' | 'body_html';
+
+export interface SpecChunk {
+  chunk_index: number;
+  source: SpecSource;
+  spec_key?: string;
+  content: string;
+}
+
+export interface SpecPassage {
+  product_id: number;
+  source: SpecSource;
+  spec_key: string | null;
+  content: string;
+  similarity: number;
+}
+
+export interface SpecIndexResult {
+  products: number;
+  chunks: number;
+  embedded: number;
+  removed: number;
+}
+
+// Target chunk length in characters - about a paragraph
+const CHUNK_SIZE = 600;
+
+/**
+ * Strip tags from product body HTML, keeping block boundaries as line breaks
+ */
+export function htmlToText(html: string): string {
+  return html
+    .replace(/<(script|style)[^>]*>[\s\S]*?<\/\1>/gi, ' ')
+    .replace(/<\/?(p|div|li|tr|h[1-6]|ul|ol|table)[^>]*>|<br\s*\/?>/gi, '\n')
+    .replace(/<\/t[dh]>/gi, ' | ')
+    .replace(/<[^>]*>/g, ' ')
+    .replace(/&nbsp;/g, ' ')
+    .replace(/&amp;/g, '&')
+    .replace(/&deg;/g, '°')
+    .replace(/&lt;/g, '<')
+    .replace(/&gt;/g, '>')
+    .replace(/&#39;|&apos;/g, "'")
+    .replace(/&quot;/g, '"')
+    .replace(/[ \t]+/g, ' ')
+    .replace(/\s*\n\s*/g, '\n')
+    .trim();
+}
+
+/**
+ * Split text into chunks of whole lines, up to CHUNK_SIZE characters
+ */
+function splitText(text: string): string[] {
+  const chunks: string[] = [];
+  let current = '';
+
+  text.split('\n').forEach(line => {
+    const trimmed = line.trim().replace(/\|\s*$/, '').trim();
+    if (!trimmed) return;
+
+    if (current && current.length + trimmed.length + 1 > CHUNK_SIZE) {
+      chunks.push(current);
+      current = '';
+    }
+    current = current ? `${current}\n${trimmed}` : trimmed;
+  });
+
+  if (current) {
+    chunks.push(current);
+  }
+
+  return chunks;
+}
+
+/**
+ * "flash_point" -> "Flash Point"
+ */
+export function formatSpecKey(key: string): string {
+  return key
+    .replace(/[_-]+/g, ' ')
+    .replace(/([a-z])([A-Z])/g, '$1 $2')
+    .replace(/\b\w/g, letter => letter.toUpperCase());
+}
+
+/**
+ * Split a product's specs, description and body HTML into chunks.
+ * Each spec is its own chunk so an exact value comes back with its key.
+ * The description is skipped when it only repeats the body text.
+ */
+export function chunkProductContent(product: {
+  title: string;
+  description?: string | null;
+  body_html?: string | null;
+  specs?: Record<string, any> | null;
+}): SpecChunk[] {
+  const chunks: SpecChunk[] = [];
+
+  Object.keys(product.specs || {}).forEach(key => {
+    const value = product.specs![key];
+    if (value === null || value === undefined || value === '') return;
+    chunks.push({
+      chunk_index: chunks.length,
+      source: 'specs',
+      spec_key: key,
+      content: `${product.title} - ${formatSpecKey(key)}: ${typeof value === 'object' ? JSON.stringify(value) : value}`,
+    });
+  });
+
+  const bodyText = product.body_html ? htmlToText(product.body_html) : '';
+  const description = (product.description || '').trim();
+  const flatBody = bodyText.replace(/\s+/g, ' ');
+
+  if (description && flatBody.indexOf(description.replace(/\s+/g, ' ')) === -1) {
+    splitText(description).forEach(content => {
+      chunks.push({ chunk_index: chunks.length, source: 'description', content });
+    });
+  }
+
+  splitText(bodyText).forEach(content => {
+    chunks.push({ chunk_index: chunks.length, source: 'body_html', content });
+  });
+
+  return chunks;
+}
+
+/**
+ * Rebuild the spec chunks of the given products (all products when
+ * none are given). Only new or changed chunks are embedded; chunks
+ * beyond the product's current content are removed.
+ */
+export async function indexProductSpecs(productIds?: number[]): Promise<SpecIndexResult> {
+  const productsResult = await pool.query(
+    `SELECT id, title, description, body_html, specs
+     FROM alliance_products
+     WHERE status = 'active'
+       ${productIds ? 'AND id = ANY($1)' : ''}
+     ORDER BY id`,
+    productIds ? [productIds] : []
+  );
+
+  const result: SpecIndexResult = { products: 0, chunks: 0, embedded: 0, removed: 0 };
+  const llm = getLLMProvider();
+
+  for (const product of productsResult.rows) {
+    const chunks = chunkProductContent(product);
+
+    const existingResult = await pool.query(
+      `SELECT chunk_index, content_hash FROM product_spec_chunks WHERE product_id = $1`,
+      [product.id]
+    );
+    const existingHashes: Record<number, string> = {};
+    existingResult.rows.forEach(row => {
+      existingHashes[row.chunk_index] = row.content_hash;
+    });
+
+    for (const chunk of chunks) {
+      const hash = createHash('sha256').update(`${chunk.source}|${chunk.spec_key || ''}|${chunk.content}`).digest('hex');
+      if (existingHashes[chunk.chunk_index] === hash) continue;
+
+      const embedding = await llm.embed(chunk.content, EMBEDDING_DIMENSIONS);
+      await pool.query(
+        `INSERT INTO product_spec_chunks (
+          product_id, chunk_index, source, spec_key, content, content_hash, embedding
+        ) VALUES ($1, $2, $3, $4, $5, $6, $7::vector)
+        ON CONFLICT (product_id, chunk_index) DO UPDATE SET
+          source = EXCLUDED.source,
+          spec_key = EXCLUDED.spec_key,
+          content = EXCLUDED.content,
+          content_hash = EXCLUDED.content_hash,
+          embedding = EXCLUDED.embedding`,
+        [product.id, chunk.chunk_index, chunk.source, chunk.spec_key || null, chunk.content, hash, `[${embedding.join(',')}]`]
+      );
+      result.embedded++;
+    }
+
+    const removed = await pool.query(
+      `DELETE FROM product_spec_chunks WHERE product_id = $1 AND chunk_index >= $2`,
+      [product.id, chunks.length]
+    );
+
+    result.products++;
+    result.chunks += chunks.length;
+    result.removed += removed.rowCount || 0;
+  }
+
+  return result;
+}
+
+/**
+ * The chunks of a product closest to a question
+ */
+export async function searchSpecChunks(
+  productId: number,
+  question: string,
+  limit: number = 3
+): Promise<SpecPassage[]> {
+  const embedding = await getLLMProvider().embed(question, EMBEDDING_DIMENSIONS);
+
+  const result = await pool.query(
+    `SELECT product_id, source, spec_key, content, 1 - (embedding <=> $1::vector) as similarity
+     FROM product_spec_chunks
+     WHERE product_id = $2 AND embedding IS NOT NULL
+     ORDER BY embedding <=> $1::vector
+     LIMIT $3`,
+    [`[${embedding.join(',')}]`, productId, limit]
+  );
+
+  return result.rows.map(row => ({
+    product_id: row.product_id,
+    source: row.source,
+    spec_key: row.spec_key,
+    content: row.content,
+    similarity: Math.round(parseFloat(row.similarity) * 1000) / 1000,
+  }));
+}
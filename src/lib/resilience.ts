@@ -0,0 +1,351 @@
+/**
+ * Timeouts, retries with jittered backoff and circuit breakers for calls
+ * to upstream services. A failing upstream trips its breaker so later
+ * calls fail fast instead of waiting on it for every email.
+ *
+ * Breaker state is per process (each serverless instance keeps its own).
+ */
+
+export type UpstreamName = 'openai' | 'shipstation' | 'shopify' | 'kv';
+
+export type CircuitState = 'closed' | 'open' | 'half_open';
+
+export interface UpstreamPolicy {
+  label: string;
+  timeoutMs: number;
+  // Attempts after the first, for retryable failures only
+  retries: number;
+  baseDelayMs: number;
+  maxDelayMs: number;
+  // Consecutive failed calls that open the circuit
+  failureThreshold: number;
+  // How long the circuit stays open before a trial call
+  resetTimeoutMs: number;
+}
+
+export interface CircuitSnapshot {
+  upstream: UpstreamName;
+  label: string;
+  state: CircuitState;
+  consecutive_failures: number;
+  total_calls: number;
+  total_failures: number;
+  opened_at?: string;
+  last_failure_at?: string;
+  last_success_at?: string;
+  last_error?: string;
+}
+
+export interface CallOptions {
+  timeoutMs?: number;
+  retries?: number;
+}
+
+const RETRYABLE_STATUSES = [408, 409, 425, 429, 500, 502, 503, 504];
+const RETRYABLE_ERROR_CODES = ['ECONNRESET', 'ECONNREFUSED', 'ETIMEDOUT', 'ENOTFOUND', 'EAI_AGAIN', 'EPIPE'];
+const RETRYABLE_ERROR_NAMES = ['APIConnectionError', 'APIConnectionTimeoutError', 'FetchError'];
+
+function envInt(name: string, fallback: number): number {
+  const value = parseInt(process.env[name] || '');
+  return isNaN(value) ? fallback : value;
+}
+
+const UPSTREAMS: Record<UpstreamName, UpstreamPolicy> = {
+  openai: {
+    label: 'OpenAI',
+    timeoutMs: envInt('OPENAI_TIMEOUT_MS', 30000),
+    retries: 2,
+    baseDelayMs: 500,
+    maxDelayMs: 8000,
+    failureThreshold: 5,
+    resetTimeoutMs: 30000,
+  },
+  shipstation: {
+    label: 'ShipStation',
+    timeoutMs: envInt('SHIPSTATION_TIMEOUT_MS', 8000),
+    retries: 2,
+    baseDelayMs: 300,
+    maxDelayMs: 4000,
+    failureThreshold: 5,
+    resetTimeoutMs: 60000,
+  },
+  shopify: {
+    label: 'Shopify',
+    timeoutMs: envInt('SHOPIFY_TIMEOUT_MS', 15000),
+    retries: 3,
+    baseDelayMs: 1000,
+    maxDelayMs: 10000,
+    failureThreshold: 5,
+    resetTimeoutMs: 60000,
+  },
+  kv: {
+    label: 'Vercel KV',
+    timeoutMs: envInt('KV_TIMEOUT_MS', 1000),
+    // A cache miss is cheaper than waiting on a retry
+    retries: 0,
+    baseDelayMs: 0,
+    maxDelayMs: 0,
+    failureThreshold: 10,
+    resetTimeoutMs: 30000,
+  },
+};
+
+/**
+ * An upstream could not be reached: its circuit is open, or every
+ * attempt timed out or failed with a retryable error
+ */
+export class UpstreamUnavailableError extends Error {
+  upstream: UpstreamName;
+  reason: 'circuit_open' | 'timeout' | 'error';
+  status?: number;
+
+  constructor(upstream: UpstreamName, reason: 'circuit_open' | 'timeout' | 'error', detail?: string, status?: number) {
+    const label = UPSTREAMS[upstream].label;
+    super(reason === 'circuit_open'
+      ? `${label} is unavailable (circuit open)`
+      : `${label} is unavailable${detail ? `: ${detail}` : ''}`);
+    this.name = 'UpstreamUnavailableError';
+    this.upstream = upstream;
+    this.reason = reason;
+    this.status = status;
+  }
+}
+
+class UpstreamTimeoutError extends Error {
+  constructor(timeoutMs: number) {
+    super(`Timed out after ${timeoutMs}ms`);
+    this.name = 'UpstreamTimeoutError';
+  }
+}
+
+/**
+ * A response with a retryable HTTP status, thrown so the call is retried
+ */
+class RetryableStatusError extends Error {
+  status: number;
+  retryAfterMs?: number;
+
+  constructor(status: number, retryAfterMs?: number) {
+    super(`HTTP ${status}`);
+    this.name = 'RetryableStatusError';
+    this.status = status;
+    this.retryAfterMs = retryAfterMs;
+  }
+}
+
+class CircuitBreaker {
+  state: CircuitState = 'closed';
+  consecutiveFailures = 0;
+  totalCalls = 0;
+  totalFailures = 0;
+  openedAt?: number;
+  lastFailureAt?: number;
+  lastSuccessAt?: number;
+  lastError?: string;
+  private trialInFlight = false;
+
+  constructor(private upstream: UpstreamName, private policy: UpstreamPolicy) {}
+
+  /**
+   * Whether a call may go ahead. After the reset timeout one trial
+   * call is let through to probe the upstream.
+   */
+  tryAcquire(): boolean {
+    if (this.state === 'closed') {
+      return true;
+    }
+
+    if (this.state === 'open' && Date.now() - (this.openedAt || 0) >= this.policy.resetTimeoutMs) {
+      this.state = 'half_open';
+    }
+
+    if (this.state === 'half_open' && !this.trialInFlight) {
+      this.trialInFlight = true;
+      return true;
+    }
+
+    return false;
+  }
+
+  recordSuccess(): void {
+    this.totalCalls++;
+    this.consecutiveFailures = 0;
+    this.lastSuccessAt = Date.now();
+    this.trialInFlight = false;
+    if (this.state !== 'closed') {
+      console.log(`Circuit for ${this.policy.label} closed`);
+    }
+    this.state = 'closed';
+    this.openedAt = undefined;
+  }
+
+  recordFailure(error: unknown): void {
+    this.totalCalls++;
+    this.totalFailures++;
+    this.consecutiveFailures++;
+    this.lastFailureAt = Date.now();
+    this.lastError = error instanceof Error ? error.message : String(error);
+
+    const trialFailed = this.state === 'half_open';
+    this.trialInFlight = false;
+
+    if (trialFailed || (this.state === 'closed' && this.consecutiveFailures >= this.policy.failureThreshold)) {
+      this.state = 'open';
+      this.openedAt = Date.now();
+      console.warn(`Circuit for ${this.policy.label} opened after ${this.consecutiveFailures} failures: ${this.lastError}`);
+    }
+  }
+
+  snapshot(): CircuitSnapshot {
+    const iso = (time?: number) => (time ? new Date(time).toISOString() : undefined);
+    return {
+      upstream: this.upstream,
+      label: this.policy.label,
+      state: this.state,
+      consecutive_failures: this.consecutiveFailures,
+      total_calls: this.totalCalls,
+      total_failures: this.totalFailures,
+      opened_at: iso(this.openedAt),
+      last_failure_at: iso(this.lastFailureAt),
+      last_success_at: iso(this.lastSuccessAt),
+      last_error: this.lastError,
+    };
+  }
+}
+
+const breakers: Record<string, CircuitBreaker> = {};
+
+function getBreaker(upstream: UpstreamName): CircuitBreaker {
+  if (!breakers[upstream]) {
+    breakers[upstream] = new CircuitBreaker(upstream, UPSTREAMS[upstream]);
+  }
+  return breakers[upstream];
+}
+
+/**
+ * Breaker state of every upstream, for the health endpoint
+ */
+export function getCircuitStates(): CircuitSnapshot[] {
+  return (Object.keys(UPSTREAMS) as UpstreamName[]).map(upstream => getBreaker(upstream).snapshot());
+}
+
+export function isRetryable(error: any): boolean {
+  if (!error) return false;
+  if (error instanceof UpstreamTimeoutError || error instanceof RetryableStatusError) return true;
+  if (typeof error.status === 'number') return RETRYABLE_STATUSES.indexOf(error.status) !== -1;
+  if (RETRYABLE_ERROR_NAMES.indexOf(error.name) !== -1) return true;
+
+  const code = error.code || error.cause?.code;
+  if (code && RETRYABLE_ERROR_CODES.indexOf(code) !== -1) return true;
+
+  // Node's fetch reports network failures as a TypeError
+  return error instanceof TypeError && /fetch failed|network/i.test(error.message);
+}
+
+/**
+ * Full jitter: a random delay up to the exponential backoff
+ */
+function backoffDelay(policy: UpstreamPolicy, attempt: number, retryAfterMs?: number): number {
+  const exponential = Math.min(policy.maxDelayMs, policy.baseDelayMs * Math.pow(2, attempt));
+  const jittered = Math.random() * exponential;
+  return retryAfterMs ? Math.min(policy.maxDelayMs, Math.max(jittered, retryAfterMs)) : jittered;
+}
+
+function sleep(ms: number): Promise<void> {
+  return new Promise(resolve => setTimeout(resolve, ms));
+}
+
+/**
+ * Run fn with a timeout, aborting its signal when the time is up
+ */
+async function withTimeout<T>(fn: (signal: AbortSignal) => Promise<T>, timeoutMs: number): Promise<T> {
+  const controller = new AbortController();
+  let timer: ReturnType<typeof setTimeout> | undefined;
+
+  const timeout = new Promise<never>((_, reject) => {
+    timer = setTimeout(() => {
+      controller.abort();
+      reject(new UpstreamTimeoutError(timeoutMs));
+    }, timeoutMs);
+  });
+
+  try {
+    return await Promise.race([fn(controller.signal), timeout]);
+  } finally {
+    clearTimeout(timer);
+  }
+}
+
+/**
+ * Call an upstream through its circuit breaker, with a per-attempt
+ * timeout and jittered retries on retryable failures. Non-retryable
+ * errors (bad requests, auth) are rethrown as-is and don't count
+ * against the breaker.
+ */
+export async function callUpstream<T>(
+  upstream: UpstreamName,
+  fn: (signal: AbortSignal) => Promise<T>,
+  options: CallOptions = {}
+): Promise<T> {
+  const policy = UPSTREAMS[upstream];
+  const breaker = getBreaker(upstream);
+  const timeoutMs = options.timeoutMs ?? policy.timeoutMs;
+  const retries = options.retries ?? policy.retries;
+
+  if (!breaker.tryAcquire()) {
+    throw new UpstreamUnavailableError(upstream, 'circuit_open');
+  }
+
+  let lastError: any;
+  for (let attempt = 0; attempt <= retries; attempt++) {
+    try {
+      const result = await withTimeout(fn, timeoutMs);
+      breaker.recordSuccess();
+      return result;
+    } catch (error: any) {
+      lastError = error;
+
+      if (!isRetryable(error)) {
+        // The upstream answered; the request itself was bad
+        breaker.recordSuccess();
+        throw error;
+      }
+
+      if (attempt < retries) {
+        const delay = backoffDelay(policy, attempt, error.retryAfterMs);
+        console.warn(`${policy.label} call failed (${error.message}), retry ${attempt + 1}/${retries} in ${Math.round(delay)}ms`);
+        await sleep(delay);
+      }
+    }
+  }
+
+  breaker.recordFailure(lastError);
+  throw new UpstreamUnavailableError(
+    upstream,
+    lastError instanceof UpstreamTimeoutError ? 'timeout' : 'error',
+    lastError?.message,
+    lastError?.status
+  );
+}
+
+/**
+ * fetch() through callUpstream. Retryable statuses (429, 5xx) are
+ * retried; other responses are returned for the caller to handle.
+ */
+export async function resilientFetch(
+  upstream: UpstreamName,
+  url: string,
+  init: RequestInit = {},
+  options?: CallOptions
+): Promise<Response> {
+  return callUpstream(upstream, async signal => {
+    const response = await fetch(url, { ...init, signal });
+
+    if (RETRYABLE_STATUSES.indexOf(response.status) !== -1) {
+      const retryAfter = parseInt(response.headers.get('retry-after') || '');
+      throw new RetryableStatusError(response.status, isNaN(retryAfter) ? undefined : retryAfter * 1000);
+    }
+
+    return response;
+  }, options);
+}
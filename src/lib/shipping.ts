@@ -0,0 +1,274 @@
+/**
+ * Shipping cost estimates from configurable rate tables: parcel or LTL
+ * by weight and destination zone, plus hazmat, liftgate and residential
+ * surcharges. Every estimate carries its breakdown.
+ *
+ * Rates come from config/shipping-rates.json, or the file named by
+ * SHIPPING_RATES_PATH (read once per process).
+ */
+
+import { readFileSync } from 'fs';
+import defaultRates from '../../config/shipping-rates.json';
+
+export type ShippingMode = 'parcel' | 'ltl';
+
+export interface ShippingRates {
+  origin_zip: string;
+  default_zone: number;
+  zones: Array<{ zip3_from: string; zip3_to: string; zone: number }>;
+  parcel: {
+    carrier: string;
+    max_package_weight_lb: number;
+    max_shipment_weight_lb: number;
+    rates: Record<string, { per_package: number; per_lb: number }>;
+  };
+  ltl: {
+    carrier: string;
+    // Container types that always ship freight
+    container_types: string[];
+    minimum_charge: number;
+    fuel_surcharge_percent: number;
+    rates_per_cwt: Record<string, number>;
+  };
+  surcharges: {
+    hazmat_per_package: number;
+    hazmat_ltl: number;
+    liftgate: number;
+    residential_per_package: number;
+    residential_ltl: number;
+  };
+  // Shipping weight of a filled container, when the variant has none
+  container_weights_lb: Record<string, number>;
+  default_lb_per_gallon: number;
+}
+
+export interface ShippingItem {
+  sku?: string;
+  container_size?: string | null;
+  container_type?: string | null;
+  // Shipping weight of one unit, from the variant
+  weight?: number | null;
+  weight_unit?: string | null;
+  quantity: number;
+  hazmat?: boolean;
+}
+
+export interface ShippingOptions {
+  zip?: string;
+  residential?: boolean;
+  liftgate?: boolean;
+  // Force a mode instead of choosing by weight and container
+  mode?: ShippingMode;
+}
+
+export interface ShippingCharge {
+  label: string;
+  amount: number;
+}
+
+export interface ShippingEstimate {
+  mode: ShippingMode;
+  carrier: string;
+  zone: number;
+  ship_to_zip?: string;
+  total_weight_lb: number;
+  packages: number;
+  breakdown: ShippingCharge[];
+  total: number;
+  // What the estimate had to assume (no ZIP, estimated weights)
+  assumptions: string[];
+}
+
+const WEIGHT_TO_LB: Record<string, number> = {
+  lb: 1,
+  lbs: 1,
+  oz: 1 / 16,
+  kg: 2.20462,
+  g: 0.00220462,
+};
+
+let cachedRates: ShippingRates | null = null;
+
+/**
+ * The rate tables in effect - the SHIPPING_RATES_PATH file when set
+ * and readable, else the bundled defaults
+ */
+export function loadShippingRates(): ShippingRates {
+  if (cachedRates) {
+    return cachedRates;
+  }
+
+  const path = process.env.SHIPPING_RATES_PATH;
+  if (path) {
+    try {
+      cachedRates = JSON.parse(readFileSync(path, 'utf8')) as ShippingRates;
+      return cachedRates;
+    } catch (error) {
+      console.error(`Failed to load shipping rates from ${path}, using defaults:`, error);
+    }
+  }
+
+  cachedRates = defaultRates as ShippingRates;
+  return cachedRates;
+}
+
+function roundMoney(amount: number): number {
+  return Math.round(amount * 100) / 100;
+}
+
+/**
+ * Destination zone for a ZIP code, by its first three digits
+ */
+export function getShippingZone(zip: string | undefined, rates: ShippingRates = loadShippingRates()): number | null {
+  const zip3 = (zip || '').replace(/\D/g, '').slice(0, 3);
+  if (zip3.length < 3) {
+    return null;
+  }
+
+  const match = rates.zones.find(range => zip3 >= range.zip3_from && zip3 <= range.zip3_to);
+  return match ? match.zone : null;
+}
+
+/**
+ * Shipping weight of one unit in pounds: the variant weight, else the
+ * configured weight of its container, else estimated from gallons
+ */
+function unitWeight(item: ShippingItem, rates: ShippingRates): { weight: number; estimated: boolean } {
+  const factor = WEIGHT_TO_LB[(item.weight_unit || 'lb').toLowerCase()] || 1;
+  if (item.weight && item.weight > 0) {
+    return { weight: item.weight * factor, estimated: false };
+  }
+
+  const size = (item.container_size || '').trim();
+  const configured = Object.keys(rates.container_weights_lb)
+    .find(key => key.toLowerCase() === size.toLowerCase());
+  if (configured) {
+    return { weight: rates.container_weights_lb[configured], estimated: true };
+  }
+
+  const gallons = size.match(/(\d+(?:\.\d+)?)\s*gal/i);
+  return {
+    weight: gallons ? parseFloat(gallons[1]) * rates.default_lb_per_gallon : rates.container_weights_lb['1 Gallon'] || 10,
+    estimated: true,
+  };
+}
+
+/**
+ * Whether an item always ships freight (drums, totes)
+ */
+function isFreightItem(item: ShippingItem, rates: ShippingRates): boolean {
+  const text = `${item.container_type || ''} ${item.container_size || ''}`.toLowerCase();
+  return rates.ltl.container_types.some(type => text.indexOf(type.toLowerCase()) !== -1);
+}
+
+/**
+ * Estimate shipping for a set of line items. Drums, totes, packages over
+ * the parcel weight limit or heavy shipments go LTL; the rest ship parcel,
+ * one package per unit.
+ */
+export function estimateShipping(items: ShippingItem[], options: ShippingOptions = {}): ShippingEstimate {
+  const rates = loadShippingRates();
+  const assumptions: string[] = [];
+
+  let zone = getShippingZone(options.zip, rates);
+  if (zone === null) {
+    zone = rates.default_zone;
+    assumptions.push(options.zip
+      ? `ZIP ${options.zip} is outside the rate table - estimated at zone ${zone}`
+      : `No ship-to ZIP - estimated at zone ${zone}`);
+  }
+
+  let totalWeight = 0;
+  let packages = 0;
+  let hazmatPackages = 0;
+  let heaviestUnit = 0;
+  let estimatedWeights = false;
+  let hasFreightItems = false;
+
+  items.forEach(item => {
+    const quantity = Math.max(1, item.quantity || 1);
+    const { weight, estimated } = unitWeight(item, rates);
+    totalWeight += weight * quantity;
+    packages += quantity;
+    heaviestUnit = Math.max(heaviestUnit, weight);
+    if (item.hazmat) hazmatPackages += quantity;
+    if (estimated) estimatedWeights = true;
+    if (isFreightItem(item, rates)) hasFreightItems = true;
+  });
+
+  if (estimatedWeights) {
+    assumptions.push('Weights estimated from container size');
+  }
+
+  const mode: ShippingMode = options.mode || (
+    hasFreightItems ||
+    heaviestUnit > rates.parcel.max_package_weight_lb ||
+    totalWeight > rates.parcel.max_shipment_weight_lb
+      ? 'ltl'
+      : 'parcel'
+  );
+
+  const weightLabel = `${Math.round(totalWeight)} lb`;
+  const breakdown: ShippingCharge[] = [];
+
+  if (mode === 'parcel') {
+    const rate = rates.parcel.rates[String(zone)] || rates.parcel.rates[String(rates.default_zone)];
+    let base = 0;
+    items.forEach(item => {
+      const quantity = Math.max(1, item.quantity || 1);
+      base += quantity * (rate.per_package + rate.per_lb * unitWeight(item, rates).weight);
+    });
+    breakdown.push({
+      label: `${rates.parcel.carrier} - zone ${zone}, ${packages} package${packages !== 1 ? 's' : ''}, ${weightLabel}`,
+      amount: roundMoney(base),
+    });
+
+    if (hazmatPackages > 0) {
+      breakdown.push({
+        label: `Hazmat surcharge (${hazmatPackages} package${hazmatPackages !== 1 ? 's' : ''})`,
+        amount: roundMoney(hazmatPackages * rates.surcharges.hazmat_per_package),
+      });
+    }
+    if (options.residential) {
+      breakdown.push({
+        label: 'Residential delivery',
+        amount: roundMoney(packages * rates.surcharges.residential_per_package),
+      });
+    }
+  } else {
+    const cwt = Math.max(1, Math.ceil(totalWeight / 100));
+    const cwtRate = rates.ltl.rates_per_cwt[String(zone)] || rates.ltl.rates_per_cwt[String(rates.default_zone)];
+    const lineHaul = Math.max(rates.ltl.minimum_charge, cwt * cwtRate);
+    breakdown.push({
+      label: `${rates.ltl.carrier} - zone ${zone}, ${weightLabel}`,
+      amount: roundMoney(lineHaul),
+    });
+    breakdown.push({
+      label: `Fuel surcharge (${rates.ltl.fuel_surcharge_percent}%)`,
+      amount: roundMoney(lineHaul * rates.ltl.fuel_surcharge_percent / 100),
+    });
+
+    if (hazmatPackages > 0) {
+      breakdown.push({ label: 'Hazmat surcharge', amount: rates.surcharges.hazmat_ltl });
+    }
+    // Residential freight deliveries need a liftgate
+    if (options.liftgate || options.residential) {
+      breakdown.push({ label: 'Liftgate delivery', amount: rates.surcharges.liftgate });
+    }
+    if (options.residential) {
+      breakdown.push({ label: 'Residential delivery', amount: rates.surcharges.residential_ltl });
+    }
+  }
+
+  return {
+    mode,
+    carrier: mode === 'parcel' ? rates.parcel.carrier : rates.ltl.carrier,
+    zone,
+    ship_to_zip: options.zip,
+    total_weight_lb: Math.round(totalWeight * 10) / 10,
+    packages,
+    breakdown,
+    total: roundMoney(breakdown.reduce((sum, charge) => sum + charge.amount, 0)),
+    assumptions,
+  };
+}
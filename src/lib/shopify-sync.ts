@@ -1,6 +1,8 @@
 import { Client } from 'pg';
-import OpenAI from 'openai';
 import type { ShopifyProduct, ShopifyVariant, AllianceProduct, AllianceProductVariant } from '@/types';
+import { EMBEDDING_DIMENSIONS, getLLMProvider, runWithUsageTags } from '@/lib/llm';
+import { resilientFetch } from '@/lib/resilience';
+import { indexProductSpecs } from '@/lib/product-specs';
 
 // GraphQL Response Types
 interface ShopifyGraphQLResponse {
@@ -50,11 +52,6 @@ interface ShopifyGraphQLResponse {
   }>;
 }
 
-// Initialize OpenAI
-const openai = new OpenAI({
-  apiKey: process.env.OPENAI_API_KEY,
-});
-
 // Database client
 function createDbClient() {
   return new Client({
@@ -123,7 +120,7 @@ async function fetchShopifyProducts(): Promise<ShopifyProduct[]> {
   console.log('🔄 Fetching products from Shopify...');
 
   while (hasNextPage) {
-    const response: Response = await fetch(shopifyUrl, {
+    const response: Response = await resilientFetch('shopify', shopifyUrl, {
       method: 'POST',
       headers,
       body: JSON.stringify({
@@ -199,17 +196,13 @@ async function fetchShopifyProducts(): Promise<ShopifyProduct[]> {
 }
 
 /**
- * Generate OpenAI embedding for product text
+ * Generate embedding for product text
  */
 async function generateEmbedding(text: string): Promise<number[]> {
   try {
-    const response = await openai.embeddings.create({
-      model: 'text-embedding-3-small',
-      input: text,
-      dimensions: 1536,
-    });
-    
-    return response.data[0].embedding;
+    return await runWithUsageTags({ route: 'shopify-sync' }, () =>
+      getLLMProvider().embed(text, EMBEDDING_DIMENSIONS)
+    );
   } catch (error) {
     console.error('❌ Error generating embedding:', error);
     throw error;
@@ -229,6 +222,10 @@ function extractChemicalInfo(product: ShopifyProduct) {
   // Extract UN number
   const unMatch = fullText.match(/\bun\s*(\d{4})\b/i);
   const un_number = unMatch ? `UN${unMatch[1]}` : null;
+
+  // Extract packing group ("PG II", "Packing Group III")
+  const pgMatch = fullText.match(/\b(?:pg|packing\s+group)\s*(iii|ii|i)\b/i);
+  const packing_group = pgMatch ? pgMatch[1].toUpperCase() : null;
   
   // Determine hazard class based on product type and keywords
   let hazard_class = null;
@@ -249,6 +246,7 @@ function extractChemicalInfo(product: ShopifyProduct) {
     cas_number,
     un_number,
     hazard_class,
+    packing_group,
     applications,
   };
 }
@@ -295,7 +293,7 @@ function parseContainerInfo(variantTitle: string) {
 /**
  * Sync a single product to the database
  */
-async function syncProduct(client: Client, shopifyProduct: ShopifyProduct): Promise<void> {
+async function syncProduct(client: Client, shopifyProduct: ShopifyProduct): Promise<number> {
   try {
     // Extract chemical information
     const chemicalInfo = extractChemicalInfo(shopifyProduct);
@@ -317,8 +315,8 @@ async function syncProduct(client: Client, shopifyProduct: ShopifyProduct): Prom
       INSERT INTO alliance_products (
         shopify_id, title, product_type, vendor, description, body_html, tags,
         cas_number, synonyms, un_number, hazard_class, applications,
-        embedding, status, published_at, created_at, updated_at
-      ) VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10, $11, $12, $13, $14, $15, $16, $17)
+        embedding, status, published_at, created_at, updated_at, packing_group
+      ) VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10, $11, $12, $13, $14, $15, $16, $17, $18)
       ON CONFLICT (shopify_id) DO UPDATE SET
         title = EXCLUDED.title,
         product_type = EXCLUDED.product_type,
@@ -328,6 +326,7 @@ async function syncProduct(client: Client, shopifyProduct: ShopifyProduct): Prom
         cas_number = EXCLUDED.cas_number,
         un_number = EXCLUDED.un_number,
         hazard_class = EXCLUDED.hazard_class,
+        packing_group = EXCLUDED.packing_group,
         applications = EXCLUDED.applications,
         embedding = EXCLUDED.embedding,
         updated_at = now()
@@ -350,6 +349,7 @@ async function syncProduct(client: Client, shopifyProduct: ShopifyProduct): Prom
       new Date(shopifyProduct.created_at),
       new Date(shopifyProduct.created_at),
       new Date(shopifyProduct.updated_at),
+      chemicalInfo.packing_group,
     ]);
     
     const productId = productResult.rows[0].id;
@@ -393,6 +393,7 @@ async function syncProduct(client: Client, shopifyProduct: ShopifyProduct): Prom
     }
     
     console.log(`✅ Synced: ${shopifyProduct.title} (${shopifyProduct.variants.length} variants)`);
+    return productId;
   } catch (error) {
     console.error(`❌ Error syncing product ${shopifyProduct.title}:`, error);
     throw error;
@@ -405,11 +406,14 @@ async function syncProduct(client: Client, shopifyProduct: ShopifyProduct): Prom
 export async function syncShopifyProducts(): Promise<{
   synced: number;
   errors: number;
+  spec_chunks_embedded: number;
   duration_ms: number;
 }> {
   const startTime = Date.now();
   let synced = 0;
   let errors = 0;
+  let specChunksEmbedded = 0;
+  const syncedIds: number[] = [];
   
   const client = createDbClient();
   
@@ -429,7 +433,7 @@ export async function syncShopifyProducts(): Promise<{
       
       const batchPromises = batch.map(async (product) => {
         try {
-          await syncProduct(client, product);
+          syncedIds.push(await syncProduct(client, product));
           synced++;
         } catch (error) {
           console.error(`❌ Failed to sync product ${product.title}:`, error);
@@ -448,6 +452,15 @@ export async function syncShopifyProducts(): Promise<{
     }
     
     console.log(`🎉 Sync complete! ${synced} synced, ${errors} errors`);
+
+    // Re-chunk the synced products' descriptions for spec Q&A - only changed chunks are embedded
+    try {
+      const specIndex = await runWithUsageTags({ route: 'shopify-sync' }, () => indexProductSpecs(syncedIds));
+      specChunksEmbedded = specIndex.embedded;
+      console.log(`🧬 Spec chunks: ${specIndex.chunks} total, ${specIndex.embedded} embedded, ${specIndex.removed} removed`);
+    } catch (error) {
+      console.error('❌ Failed to index product specs:', error);
+    }
     
   } catch (error) {
     console.error('❌ Sync failed:', error);
@@ -459,6 +472,7 @@ export async function syncShopifyProducts(): Promise<{
   return {
     synced,
     errors,
+    spec_chunks_embedded: specChunksEmbedded,
     duration_ms: Date.now() - startTime,
   };
 }
\ No newline at end of file
@@ -0,0 +1,51 @@
+/**
+ * Simple template renderer using regex replacement
+ * Supports {{variable}} and {{#if condition}}...{{else}}...{{/if}} blocks
+ */
+export function renderTemplate(template: string, variables: Record<string, any>): string {
+  let rendered = template;
+  
+  // Handle conditional blocks {{#if variable}}...{{else}}...{{/if}}
+  rendered = resolveConditionals(rendered, variables);
+  
+  // Handle simple variable replacement {{variable}}
+  rendered = rendered.replace(
+    /\{\{(\w+)\}\}/g,
+    (match, varName) => {
+      return variables[varName] !== undefined ? String(variables[varName]) : match;
+    }
+  );
+  
+  return rendered;
+}
+
+/**
+ * Keep only the branch of each {{#if variable}}...{{else}}...{{/if}}
+ * block that applies, leaving the variables inside it unrendered
+ */
+export function resolveConditionals(template: string, variables: Record<string, any>): string {
+  return template.replace(
+    /\{\{#if\s+(\w+)\}\}([\s\S]*?)\{\{\/if\}\}/g,
+    (match, varName, content) => {
+      const [whenTrue, whenFalse = ''] = content.split('{{else}}');
+      return variables[varName] ? whenTrue : whenFalse;
+    }
+  );
+}
+
+/**
+ * List the variables a template references, including {{#if}} conditions
+ */
+export function extractTemplateVariables(template: string): string[] {
+  const variablePattern = /\{\{(?:#if\s+)?(\w+)\}\}/g;
+  const found: string[] = [];
+  let match;
+  
+  while ((match = variablePattern.exec(template)) !== null) {
+    if (match[1] !== 'else' && found.indexOf(match[1]) === -1) {
+      found.push(match[1]);
+    }
+  }
+  
+  return found;
+}
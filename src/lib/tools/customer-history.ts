@@ -0,0 +1,257 @@
+import { pool } from '@/lib/db';
+import { getOrderStatus, OrderStatus } from './order-status';
+import { ToolDefinition, ToolError } from './types';
+
+export interface CustomerHistoryInput {
+  email?: string;
+  domain?: string;
+  // Include colleagues at the email's company (its domain)
+  include_company?: boolean;
+  limit?: number;
+}
+
+export interface PastQuote {
+  quote_number: string;
+  status: string;
+  total_amount: number | null;
+  created_at: string;
+  items: Array<{
+    product_name: string | null;
+    sku: string | null;
+    container_size: string | null;
+    quantity: number;
+    unit_price: number;
+  }>;
+}
+
+export interface PastCorrespondence {
+  message_id: string;
+  subject: string | null;
+  classification: string | null;
+  status: string;
+  reply: string;
+  sent: boolean;
+  generated_at: string;
+  sent_at: string | null;
+}
+
+export interface CustomerStats {
+  total_emails: number;
+  responded: number;
+  response_rate: number | null;
+  avg_days_to_response: number | null;
+  edit_rate: number | null;
+}
+
+export interface CustomerHistoryOutput {
+  found: boolean;
+  customer: {
+    email?: string;
+    domain?: string;
+  };
+  quotes: PastQuote[];
+  orders: OrderStatus[];
+  // Why orders could not be retrieved, if they couldn't
+  orders_note?: string;
+  correspondence: PastCorrespondence[];
+  stats: CustomerStats;
+}
+
+// Default number of quotes, orders and emails returned
+const DEFAULT_HISTORY_LIMIT = 5;
+
+// Public email providers - their domain is no company, so no domain lookups
+const PUBLIC_MAIL_DOMAINS = [
+  'gmail.com', 'googlemail.com', 'yahoo.com', 'ymail.com', 'hotmail.com', 'outlook.com',
+  'live.com', 'msn.com', 'aol.com', 'icloud.com', 'me.com', 'mac.com', 'protonmail.com',
+  'proton.me', 'gmx.com', 'mail.com', 'zoho.com', 'yandex.com', 'comcast.net', 'att.net',
+  'sbcglobal.net', 'verizon.net', 'bellsouth.net', 'cox.net', 'charter.net',
+];
+
+/**
+ * Whether a domain belongs to a public email provider
+ */
+export function isPublicMailDomain(domain: string): boolean {
+  return PUBLIC_MAIL_DOMAINS.indexOf(domain.trim().replace(/^@/, '').toLowerCase()) !== -1;
+}
+
+/**
+ * SQL condition matching a customer email column by exact email or domain
+ */
+function customerMatch(column: string, input: CustomerHistoryInput): { clause: string; value: string } {
+  if (input.email) {
+    return { clause: `LOWER(${column}) = LOWER($1)`, value: input.email.trim() };
+  }
+  return { clause: `LOWER(${column}) LIKE '%@' || LOWER($1)`, value: input.domain!.trim().replace(/^@/, '') };
+}
+
+async function getPastQuotes(input: CustomerHistoryInput, limit: number): Promise<PastQuote[]> {
+  const match = customerMatch('q.customer_email', input);
+
+  const result = await pool.query(
+    `SELECT
+      q.quote_number,
+      q.status,
+      q.total_amount,
+      q.created_at,
+      COALESCE(
+        json_agg(
+          json_build_object(
+            'product_name', p.title,
+            'sku', qi.metadata->>'sku',
+            'container_size', qi.metadata->>'container_size',
+            'quantity', qi.quantity,
+            'unit_price', qi.unit_price
+          )
+        ) FILTER (WHERE qi.id IS NOT NULL),
+        '[]'
+      ) as items
+    FROM alliance_quotes q
+    LEFT JOIN alliance_quote_items qi ON q.id = qi.quote_id
+    LEFT JOIN alliance_products p ON p.id = qi.product_id
+    WHERE ${match.clause}
+    GROUP BY q.id
+    ORDER BY q.created_at DESC
+    LIMIT $2`,
+    [match.value, limit]
+  );
+
+  return result.rows.map(row => ({
+    quote_number: row.quote_number,
+    status: row.status,
+    total_amount: row.total_amount !== null ? parseFloat(row.total_amount) : null,
+    created_at: row.created_at,
+    items: row.items.map((item: any) => ({
+      ...item,
+      unit_price: parseFloat(item.unit_price),
+    })),
+  }));
+}
+
+async function getPastCorrespondence(input: CustomerHistoryInput, limit: number): Promise<PastCorrespondence[]> {
+  const match = customerMatch('sender_email', input);
+
+  const result = await pool.query(
+    `SELECT
+      message_id,
+      subject,
+      classification,
+      status,
+      LEFT(COALESCE(final_response, draft_response), 500) as reply,
+      final_response IS NOT NULL as sent,
+      generated_at,
+      sent_at
+    FROM email_response_drafts
+    WHERE ${match.clause}
+    ORDER BY generated_at DESC
+    LIMIT $2`,
+    [match.value, limit]
+  );
+
+  return result.rows;
+}
+
+async function getCustomerStats(input: CustomerHistoryInput): Promise<CustomerStats> {
+  const match = customerMatch('d.sender_email', input);
+
+  const result = await pool.query(
+    `SELECT
+      COUNT(*) as total_emails,
+      SUM(CASE WHEN f.responded THEN 1 ELSE 0 END) as responded,
+      AVG(f.days_to_response) as avg_days_to_response,
+      AVG(CASE WHEN d.was_edited THEN 1 ELSE 0 END) * 100 as edit_rate
+    FROM email_response_drafts d
+    LEFT JOIN email_feedback f ON f.message_id = d.message_id
+    WHERE ${match.clause}`,
+    [match.value]
+  );
+
+  const row = result.rows[0];
+  const total = parseInt(row.total_emails);
+  const responded = parseInt(row.responded || 0);
+
+  return {
+    total_emails: total,
+    responded,
+    response_rate: total > 0 ? Math.round((responded / total) * 1000) / 10 : null,
+    avg_days_to_response: row.avg_days_to_response !== null ? parseFloat(row.avg_days_to_response) : null,
+    edit_rate: row.edit_rate !== null ? Math.round(parseFloat(row.edit_rate) * 10) / 10 : null,
+  };
+}
+
+/**
+ * Look up recent orders through the order-status integration.
+ * ShipStation only searches by exact email, so domains get no orders.
+ */
+async function getRecentOrders(
+  input: CustomerHistoryInput,
+  limit: number
+): Promise<{ orders: OrderStatus[]; note?: string }> {
+  if (!input.email) {
+    return { orders: [], note: 'Orders can only be looked up by exact email address' };
+  }
+
+  try {
+    const result = await getOrderStatus({ email: input.email });
+    return { orders: (result.orders || []).slice(0, limit) };
+  } catch (error) {
+    return {
+      orders: [],
+      note: error instanceof Error ? error.message : 'Unable to retrieve orders',
+    };
+  }
+}
+
+/**
+ * Collect a customer's past quotes, orders, correspondence and response
+ * stats by email address or company domain. With include_company the
+ * domain comes from the email itself. Public email providers' domains
+ * are never matched.
+ */
+export async function getCustomerHistory(input: CustomerHistoryInput): Promise<CustomerHistoryOutput> {
+  const { email } = input;
+  const requestedDomain = input.include_company && email ? email.split('@')[1] : input.domain;
+  const domain = requestedDomain && !isPublicMailDomain(requestedDomain)
+    ? requestedDomain.trim().replace(/^@/, '').toLowerCase()
+    : undefined;
+  const byDomain = !!domain && (!!input.include_company || !email);
+
+  if (!email && !domain) {
+    throw new ToolError(requestedDomain
+      ? 'Domain lookups are not available for public email providers'
+      : 'Must provide email or domain');
+  }
+
+  const limit = Math.min(input.limit || DEFAULT_HISTORY_LIMIT, 20);
+  const match: CustomerHistoryInput = byDomain ? { domain } : { email };
+
+  const [quotes, correspondence, stats, orderHistory] = await Promise.all([
+    getPastQuotes(match, limit),
+    getPastCorrespondence(match, limit),
+    getCustomerStats(match),
+    getRecentOrders({ email }, limit),
+  ]);
+
+  return {
+    found: quotes.length > 0 || correspondence.length > 0 || orderHistory.orders.length > 0,
+    customer: byDomain ? { email, domain } : { email },
+    quotes,
+    orders: orderHistory.orders,
+    orders_note: orderHistory.note,
+    correspondence,
+    stats,
+  };
+}
+
+export const customerHistoryTool: ToolDefinition<CustomerHistoryInput, CustomerHistoryOutput> = {
+  name: 'customer-history',
+  description: "Look up the sender's past quotes, recent orders, earlier emails and replies, and response stats",
+  parameters: {
+    type: 'object',
+    properties: {
+      include_company: { type: 'boolean', description: "Include colleagues at the sender's company" },
+      limit: { type: 'number', description: 'Maximum quotes, orders and emails to return (default 5)' },
+    },
+  },
+  execute: getCustomerHistory,
+};
@@ -0,0 +1,231 @@
+import { pool } from '@/lib/db';
+import { ToolDefinition, ToolError } from './types';
+
+export type DocumentType = 'sds' | 'coa' | 'tds';
+
+export interface DocumentsInput {
+  product_id?: number;
+  product_name?: string;
+  sku?: string;
+  cas_number?: string;
+  // COA for a specific lot, from the container label
+  lot_number?: string;
+  document_types?: DocumentType[];
+}
+
+export interface ProductDocument {
+  doc_type: DocumentType;
+  title: string;
+  url: string;
+  lot_number?: string;
+  revision?: string;
+  issued_at?: string;
+  expires_at?: string;
+}
+
+export interface ProductDocuments {
+  product_id: number;
+  product_name: string;
+  cas_number?: string;
+  documents: ProductDocument[];
+  // Requested document types we have nothing on file for
+  missing: DocumentType[];
+}
+
+export interface DocumentsOutput {
+  found: boolean;
+  query: DocumentsInput;
+  message?: string;
+  products: ProductDocuments[];
+  notes?: string | null;
+}
+
+const ALL_DOCUMENT_TYPES: DocumentType[] = ['sds', 'coa', 'tds'];
+
+const DOCUMENT_LABELS: Record<DocumentType, string> = {
+  sds: 'Safety Data Sheet',
+  coa: 'Certificate of Analysis',
+  tds: 'Technical Data Sheet',
+};
+
+// Recent COAs offered when the customer didn't give a lot number
+const RECENT_COA_LIMIT = 3;
+
+/**
+ * Find the products a document request is about
+ */
+async function findProducts(input: DocumentsInput): Promise<Array<{
+  id: number;
+  title: string;
+  cas_number: string | null;
+  sds_url: string | null;
+}>> {
+  const { product_id, product_name, sku, cas_number, lot_number } = input;
+
+  let query = `
+    SELECT DISTINCT p.id, p.title, p.cas_number, p.sds_url
+    FROM alliance_products p
+    LEFT JOIN alliance_product_variants v ON p.id = v.product_id
+    WHERE p.status = 'active'
+  `;
+  const params: any[] = [];
+
+  if (product_id) {
+    params.push(product_id);
+    query += ` AND p.id = $${params.length}`;
+  } else if (sku) {
+    params.push(sku);
+    query += ` AND LOWER(v.sku) = LOWER($${params.length})`;
+  } else if (cas_number) {
+    params.push(cas_number);
+    query += ` AND p.cas_number = $${params.length}`;
+  } else if (product_name) {
+    params.push(`%${product_name}%`);
+    query += ` AND (
+      LOWER(p.title) LIKE LOWER($${params.length})
+      OR EXISTS (SELECT 1 FROM unnest(p.synonyms) s WHERE LOWER(s) LIKE LOWER($${params.length}))
+    )`;
+  } else if (lot_number) {
+    // A lot number alone identifies the product through its COA
+    params.push(lot_number);
+    query += ` AND p.id IN (
+      SELECT product_id FROM product_documents
+      WHERE LOWER(lot_number) = LOWER($${params.length}) AND is_active = true
+    )`;
+  }
+
+  query += ` ORDER BY p.title LIMIT 5`;
+
+  const result = await pool.query(query, params);
+  return result.rows;
+}
+
+/**
+ * Look up SDS, COA and tech data sheet links for a product by ID, name,
+ * SKU or CAS number. COAs are matched to the lot number when one is
+ * given; otherwise the most recent COAs are returned.
+ */
+export async function getDocuments(input: DocumentsInput): Promise<DocumentsOutput> {
+  const { product_id, product_name, sku, cas_number, lot_number } = input;
+
+  if (!product_id && !product_name && !sku && !cas_number && !lot_number) {
+    throw new ToolError('Must provide product_id, product_name, sku, cas_number or lot_number');
+  }
+
+  const documentTypes = (input.document_types && input.document_types.length > 0)
+    ? input.document_types.filter(type => ALL_DOCUMENT_TYPES.indexOf(type) !== -1)
+    : ALL_DOCUMENT_TYPES;
+
+  const products = await findProducts(input);
+
+  if (products.length === 0) {
+    return {
+      found: false,
+      query: input,
+      message: 'No products found matching your criteria',
+      products: [],
+    };
+  }
+
+  const documentsResult = await pool.query(
+    `SELECT
+      product_id,
+      doc_type,
+      title,
+      url,
+      lot_number,
+      revision,
+      to_char(issued_at, 'YYYY-MM-DD') as issued_at,
+      to_char(expires_at, 'YYYY-MM-DD') as expires_at
+    FROM product_documents
+    WHERE product_id = ANY($1)
+      AND doc_type = ANY($2)
+      AND is_active = true
+      AND (expires_at IS NULL OR expires_at >= CURRENT_DATE)
+    ORDER BY doc_type, issued_at DESC NULLS LAST, id DESC`,
+    [products.map(p => p.id), documentTypes]
+  );
+
+  const results: ProductDocuments[] = products.map(product => {
+    const rows = documentsResult.rows.filter(row => String(row.product_id) === String(product.id));
+    const documents: ProductDocument[] = [];
+
+    documentTypes.forEach(docType => {
+      let matching = rows.filter(row => row.doc_type === docType);
+
+      if (docType === 'coa') {
+        matching = lot_number
+          ? matching.filter(row => (row.lot_number || '').toLowerCase() === lot_number.toLowerCase())
+          : matching.slice(0, RECENT_COA_LIMIT);
+      } else {
+        // Only the current revision of an SDS or TDS
+        matching = matching.slice(0, 1);
+      }
+
+      matching.forEach(row => {
+        documents.push({
+          doc_type: docType,
+          title: row.title,
+          url: row.url,
+          lot_number: row.lot_number || undefined,
+          revision: row.revision || undefined,
+          issued_at: row.issued_at || undefined,
+          expires_at: row.expires_at || undefined,
+        });
+      });
+
+      // Products synced before the documents table still carry their SDS link
+      if (docType === 'sds' && matching.length === 0 && product.sds_url) {
+        documents.push({
+          doc_type: 'sds',
+          title: `${product.title} - ${DOCUMENT_LABELS.sds}`,
+          url: product.sds_url,
+        });
+      }
+    });
+
+    return {
+      product_id: product.id,
+      product_name: product.title,
+      cas_number: product.cas_number || undefined,
+      documents,
+      missing: documentTypes.filter(type => !documents.some(doc => doc.doc_type === type)),
+    };
+  });
+
+  const notes: string[] = [];
+  if (documentTypes.indexOf('coa') !== -1 && !lot_number) {
+    notes.push('COAs are lot-specific. Ask for the lot number on the container label to send the matching COA.');
+  }
+  if (lot_number && results.every(product => product.missing.indexOf('coa') !== -1)) {
+    notes.push(`No COA on file for lot ${lot_number}. Quality control can issue one on request.`);
+  }
+
+  return {
+    found: results.some(product => product.documents.length > 0),
+    query: input,
+    products: results,
+    notes: notes.length > 0 ? notes.join(' ') : null,
+  };
+}
+
+export const documentsTool: ToolDefinition<DocumentsInput, DocumentsOutput> = {
+  name: 'documents',
+  description: 'Links to Safety Data Sheets (SDS), lot-specific Certificates of Analysis (COA) and Technical Data Sheets (TDS) for a product by ID, name, SKU or CAS number. The documents found are attached to the reply.',
+  parameters: {
+    type: 'object',
+    properties: {
+      product_id: { type: 'number', description: 'Product ID from a product-search result' },
+      product_name: { type: 'string' },
+      sku: { type: 'string' },
+      cas_number: { type: 'string' },
+      lot_number: { type: 'string', description: 'Lot number from the container label, for the matching COA' },
+      document_types: {
+        type: 'array',
+        items: { type: 'string', enum: ALL_DOCUMENT_TYPES },
+        description: 'Documents to look up (default: all)',
+      },
+    },
+  },
+  execute: getDocuments,
+};
@@ -0,0 +1,76 @@
+import { orderStatusTool } from './order-status';
+import { productSearchTool } from './product-search';
+import { pricingTool } from './pricing';
+import { quoteTool } from './quote';
+import { customerHistoryTool } from './customer-history';
+import { documentsTool } from './documents';
+import { specLookupTool } from './spec-lookup';
+import { substitutesTool } from './substitutes';
+import { UpstreamUnavailableError } from '@/lib/resilience';
+import { ToolDefinition, ToolError, ToolResult } from './types';
+
+export * from './types';
+export * from './order-status';
+export * from './product-search';
+export * from './pricing';
+export * from './quote';
+export * from './customer-history';
+export * from './documents';
+export * from './spec-lookup';
+export * from './substitutes';
+
+/**
+ * Registered tools - adding a tool means adding its module here
+ */
+const TOOLS: ToolDefinition[] = [
+  orderStatusTool,
+  productSearchTool,
+  pricingTool,
+  quoteTool,
+  customerHistoryTool,
+  documentsTool,
+  specLookupTool,
+  substitutesTool,
+];
+
+const registry: Record<string, ToolDefinition> = {};
+TOOLS.forEach(tool => {
+  registry[tool.name] = tool;
+});
+
+/**
+ * Look up a registered tool by name
+ */
+export function getTool(name: string): ToolDefinition | undefined {
+  return registry[name];
+}
+
+/**
+ * List all registered tools
+ */
+export function listTools(): ToolDefinition[] {
+  return TOOLS.slice();
+}
+
+/**
+ * Run a registered tool in-process, capturing errors in the result
+ */
+export async function executeTool(name: string, input: any): Promise<ToolResult> {
+  const tool = registry[name];
+  if (!tool) {
+    return { tool: name, error: 'Unknown tool' };
+  }
+
+  try {
+    const data = await tool.execute(input);
+    return { tool: name, data };
+  } catch (error) {
+    console.error(`Tool ${name} error:`, error);
+    return {
+      tool: name,
+      error: error instanceof Error ? error.message : 'Unknown error',
+      unavailable: error instanceof UpstreamUnavailableError ||
+        (error instanceof ToolError && error.status === 503) || undefined,
+    };
+  }
+}
@@ -0,0 +1,261 @@
+import { orderCache, CacheService } from '@/lib/cache';
+import { resilientFetch, UpstreamUnavailableError } from '@/lib/resilience';
+import { ToolDefinition, ToolError } from './types';
+
+export interface OrderStatusInput {
+  order_number?: string;
+  email?: string;
+  tracking_number?: string;
+}
+
+export interface OrderItem {
+  sku: string;
+  name: string;
+  quantity: number;
+  status: string;
+}
+
+export interface ShippingAddress {
+  name: string;
+  street1: string;
+  street2?: string;
+  city: string;
+  state: string;
+  postal_code: string;
+  country: string;
+}
+
+export interface OrderStatus {
+  order_number: string;
+  status: string;
+  ship_date?: string;
+  carrier?: string;
+  tracking_number?: string;
+  tracking_url?: string;
+  estimated_delivery?: string;
+  items: OrderItem[];
+  shipping_address: ShippingAddress;
+}
+
+export interface OrderStatusOutput {
+  found: boolean;
+  message: string;
+  orders?: OrderStatus[];
+  search_criteria?: OrderStatusInput;
+  suggestion?: string;
+}
+
+/**
+ * Get order status from ShipStation
+ */
+export async function getOrderStatus(input: OrderStatusInput): Promise<OrderStatusOutput> {
+  const { order_number, email, tracking_number } = input;
+
+  if (!order_number && !email && !tracking_number) {
+    throw new ToolError('Must provide order_number, email, or tracking_number');
+  }
+
+  // Create cache key
+  const cacheKey = CacheService.createKey(
+    'order',
+    order_number || '',
+    email || '',
+    tracking_number || ''
+  );
+
+  // Check cache first
+  const cachedResponse = await orderCache.get<OrderStatusOutput>(cacheKey);
+  if (cachedResponse) {
+    return cachedResponse;
+  }
+
+  // ShipStation API credentials from environment
+  const apiKey = process.env.SHIPSTATION_API_KEY;
+  const apiSecret = process.env.SHIPSTATION_API_SECRET;
+
+  if (!apiKey || !apiSecret) {
+    console.error('ShipStation credentials not configured');
+    throw new ToolError('Order tracking service not configured', 503);
+  }
+
+  // Create Basic Auth header
+  const auth = Buffer.from(`${apiKey}:${apiSecret}`).toString('base64');
+
+  // Build ShipStation API query
+  let endpoint = 'https://ssapi.shipstation.com/orders';
+  const params = new URLSearchParams();
+
+  if (order_number) {
+    params.append('orderNumber', order_number);
+  } else if (email) {
+    params.append('customerEmail', email);
+    params.append('orderStatus', 'shipped');
+    params.append('sortBy', 'OrderDate');
+    params.append('sortDir', 'DESC');
+    params.append('pageSize', '10');
+  } else if (tracking_number) {
+    endpoint = 'https://ssapi.shipstation.com/shipments';
+    params.append('trackingNumber', tracking_number);
+  }
+
+  // Make request to ShipStation
+  let response: Response;
+  try {
+    response = await resilientFetch('shipstation', `${endpoint}?${params.toString()}`, {
+      method: 'GET',
+      headers: {
+        'Authorization': `Basic ${auth}`,
+        'Content-Type': 'application/json',
+      },
+    });
+  } catch (error) {
+    if (error instanceof UpstreamUnavailableError) {
+      throw new ToolError('Order tracking is temporarily unavailable', 503, {
+        found: false,
+        message: 'Order tracking is temporarily unavailable',
+        search_criteria: { order_number, email, tracking_number },
+      });
+    }
+    throw error;
+  }
+
+  if (!response.ok) {
+    console.error('ShipStation API error:', response.status);
+    throw new ToolError('Unable to retrieve order information', response.status, {
+      found: false,
+      message: 'Unable to retrieve order information',
+      search_criteria: { order_number, email, tracking_number },
+    });
+  }
+
+  const data = await response.json();
+
+  // Process the response based on what we searched for
+  let orders = [];
+
+  if (tracking_number && endpoint.includes('shipments')) {
+    // Convert shipments to order format
+    const shipments = data.shipments || [];
+    for (const shipment of shipments) {
+      if (shipment.orderId) {
+        // Fetch the full order details; skip orders ShipStation can't return now
+        const orderResponse = await resilientFetch(
+          'shipstation',
+          `https://ssapi.shipstation.com/orders/${shipment.orderId}`,
+          {
+            headers: {
+              'Authorization': `Basic ${auth}`,
+              'Content-Type': 'application/json',
+            },
+          }
+        ).catch(error => {
+          console.error(`Failed to fetch order ${shipment.orderId}:`, error);
+          return null;
+        });
+
+        if (orderResponse?.ok) {
+          const orderData = await orderResponse.json();
+          orders.push(orderData);
+        }
+      }
+    }
+  } else {
+    orders = data.orders || [];
+  }
+
+  if (orders.length === 0) {
+    const notFoundResponse: OrderStatusOutput = {
+      found: false,
+      message: 'No orders found matching your criteria',
+      search_criteria: { order_number, email, tracking_number },
+      suggestion: 'Please check your order number or email address',
+    };
+
+    // Cache not found response for shorter time (5 minutes)
+    await orderCache.set(cacheKey, notFoundResponse, { ttl: 300 });
+
+    return notFoundResponse;
+  }
+
+  // Format the response for AI consumption
+  const formattedOrders: OrderStatus[] = orders.map((order: any) => {
+    // Get tracking info from shipments
+    const shipment = order.shipments?.[0] || {};
+
+    // Determine order status
+    let status = 'Processing';
+    if (order.orderStatus === 'shipped') {
+      status = 'Shipped';
+    } else if (order.orderStatus === 'delivered') {
+      status = 'Delivered';
+    } else if (order.orderStatus === 'cancelled') {
+      status = 'Cancelled';
+    } else if (order.orderStatus === 'awaiting_shipment') {
+      status = 'Preparing for shipment';
+    }
+
+    // Build tracking URL
+    let trackingUrl = '';
+    if (shipment.trackingNumber) {
+      if (shipment.carrierCode === 'ups') {
+        trackingUrl = `https://www.ups.com/track?tracknum=${shipment.trackingNumber}`;
+      } else if (shipment.carrierCode === 'fedex') {
+        trackingUrl = `https://www.fedex.com/fedextrack/?trknbr=${shipment.trackingNumber}`;
+      } else if (shipment.carrierCode === 'usps') {
+        trackingUrl = `https://tools.usps.com/go/TrackConfirmAction?tLabels=${shipment.trackingNumber}`;
+      }
+    }
+
+    return {
+      order_number: order.orderNumber,
+      status,
+      ship_date: shipment.shipDate || order.shipDate,
+      carrier: shipment.carrierCode?.toUpperCase() || null,
+      tracking_number: shipment.trackingNumber || null,
+      tracking_url: trackingUrl || null,
+      estimated_delivery: shipment.estimatedDeliveryDate || null,
+      items: (order.items || []).map((item: any) => ({
+        sku: item.sku,
+        name: item.name,
+        quantity: item.quantity,
+        status: item.fulfillmentStatus || 'pending',
+      })),
+      shipping_address: {
+        name: order.shipTo?.name || '',
+        street1: order.shipTo?.street1 || '',
+        street2: order.shipTo?.street2 || '',
+        city: order.shipTo?.city || '',
+        state: order.shipTo?.state || '',
+        postal_code: order.shipTo?.postalCode || '',
+        country: order.shipTo?.country || 'US',
+      },
+    };
+  });
+
+  const finalResponse: OrderStatusOutput = {
+    found: true,
+    orders: formattedOrders,
+    message: formattedOrders.length === 1
+      ? `Found order ${formattedOrders[0].order_number}`
+      : `Found ${formattedOrders.length} orders`,
+  };
+
+  // Cache the response for 1 hour
+  await orderCache.set(cacheKey, finalResponse, { ttl: 3600 });
+
+  return finalResponse;
+}
+
+export const orderStatusTool: ToolDefinition<OrderStatusInput, OrderStatusOutput> = {
+  name: 'order-status',
+  description: 'Look up order status, shipment and tracking information in ShipStation',
+  parameters: {
+    type: 'object',
+    properties: {
+      order_number: { type: 'string', description: 'Customer order number' },
+      email: { type: 'string', description: 'Customer email to find recent orders' },
+      tracking_number: { type: 'string', description: 'Carrier tracking number' },
+    },
+  },
+  execute: getOrderStatus,
+};
@@ -0,0 +1,256 @@
+import { pool } from '@/lib/db';
+import { pricingCache, CacheService } from '@/lib/cache';
+import { checkHazmatCompliance, HazmatCompliance } from '@/lib/hazmat';
+import { estimateShipping, ShippingEstimate } from '@/lib/shipping';
+import { ToolDefinition, ToolError } from './types';
+
+export interface PricingInput {
+  product_name?: string;
+  sku?: string;
+  cas_number?: string;
+  container_size?: string;
+  quantity?: number;
+  // Destination for the shipping estimate
+  ship_to_zip?: string;
+  ship_to_state?: string;
+  residential?: boolean;
+  po_box?: boolean;
+  // Delivery needs a liftgate (no loading dock)
+  liftgate?: boolean;
+}
+
+export interface ProductPrice {
+  product_id: number;
+  product_name: string;
+  sku: string;
+  cas_number?: string;
+  container_size: string;
+  unit_price: number;
+  quantity_available?: number;
+  hazmat_fee?: number;
+  total_price: number;
+  shipping_class?: string;
+  // Shipping for the requested quantity, with its breakdown
+  shipping_estimate?: ShippingEstimate;
+  // Hazmat products only
+  hazmat_compliance?: HazmatCompliance;
+}
+
+export interface PricingOutput {
+  found: boolean;
+  message?: string;
+  search_criteria?: Omit<PricingInput, 'quantity' | 'ship_to_zip' | 'ship_to_state' | 'residential' | 'po_box' | 'liftgate'>;
+  query?: PricingInput;
+  results?: ProductPrice[];
+  disclaimer?: string;
+  notes?: string | null;
+}
+
+/**
+ * Deterministic pricing tool for AI agents
+ * Returns exact prices from database - no hallucinations
+ */
+export async function getPricing(input: PricingInput): Promise<PricingOutput> {
+  const { product_name, sku, cas_number, container_size, quantity = 1, ship_to_zip, ship_to_state, residential, po_box, liftgate } = input;
+
+  if (!product_name && !sku && !cas_number) {
+    throw new ToolError('Must provide product_name, sku, or cas_number');
+  }
+
+  // Create cache key from request parameters
+  const cacheKey = CacheService.createKey(
+    'price',
+    product_name || '',
+    sku || '',
+    cas_number || '',
+    container_size || '',
+    quantity,
+    ship_to_zip || '',
+    ship_to_state || '',
+    residential ? 'residential' : '',
+    po_box ? 'po_box' : '',
+    liftgate ? 'liftgate' : ''
+  );
+
+  // Check cache first
+  const cachedResponse = await pricingCache.get<PricingOutput>(cacheKey);
+  if (cachedResponse) {
+    return cachedResponse;
+  }
+
+  // Build the query based on provided parameters
+  let query = `
+    SELECT
+      p.id as product_id,
+      p.title as product_name,
+      p.cas_number,
+      v.sku,
+      v.container_size,
+      v.price as unit_price,
+      v.inventory_quantity as quantity_available,
+      v.container_type,
+      v.weight,
+      v.weight_unit,
+      p.hazard_class,
+      p.un_number,
+      p.packing_group,
+      CASE
+        WHEN p.hazard_class IS NOT NULL THEN 35.00
+        ELSE 0
+      END as hazmat_fee,
+      CASE
+        WHEN v.container_size LIKE '%Drum%' OR v.container_size LIKE '%Tote%' THEN 'freight'
+        ELSE 'standard'
+      END as shipping_class
+    FROM alliance_products p
+    JOIN alliance_product_variants v ON p.id = v.product_id
+    WHERE v.is_active = true
+  `;
+
+  const params: any[] = [];
+  let paramCount = 1;
+
+  // Add search conditions
+  if (sku) {
+    query += ` AND LOWER(v.sku) = LOWER($${paramCount})`;
+    params.push(sku);
+    paramCount++;
+  } else if (product_name && container_size) {
+    // Exact match by product name and container size
+    query += ` AND LOWER(p.title) LIKE LOWER($${paramCount})`;
+    params.push(`%${product_name}%`);
+    paramCount++;
+    query += ` AND LOWER(v.container_size) LIKE LOWER($${paramCount})`;
+    params.push(`%${container_size}%`);
+    paramCount++;
+  } else if (cas_number) {
+    query += ` AND p.cas_number = $${paramCount}`;
+    params.push(cas_number);
+    paramCount++;
+    if (container_size) {
+      query += ` AND LOWER(v.container_size) LIKE LOWER($${paramCount})`;
+      params.push(`%${container_size}%`);
+      paramCount++;
+    }
+  } else if (product_name) {
+    // Fuzzy search by product name
+    query += ` AND (
+      LOWER(p.title) LIKE LOWER($${paramCount})
+      OR $${paramCount} = ANY(LOWER(p.synonyms::text)::text[])
+    )`;
+    params.push(`%${product_name}%`);
+    paramCount++;
+  }
+
+  query += ` ORDER BY v.price ASC LIMIT 10`;
+
+  const result = await pool.query(query, params);
+
+  if (result.rows.length === 0) {
+    return {
+      found: false,
+      message: 'No products found matching your criteria',
+      search_criteria: { product_name, sku, cas_number, container_size },
+    };
+  }
+
+  // Calculate total prices
+  const prices: ProductPrice[] = result.rows.map(row => {
+    const compliance = row.hazard_class
+      ? checkHazmatCompliance([{
+          sku: row.sku,
+          un_number: row.un_number,
+          hazard_class: row.hazard_class,
+          packing_group: row.packing_group,
+          container_size: row.container_size,
+          container_type: row.container_type,
+          quantity,
+        }], { zip: ship_to_zip, state: ship_to_state, residential, po_box })
+      : undefined;
+
+    return {
+      product_id: row.product_id,
+      product_name: row.product_name,
+      sku: row.sku,
+      cas_number: row.cas_number,
+      container_size: row.container_size,
+      unit_price: parseFloat(row.unit_price),
+      quantity_available: row.quantity_available,
+      hazmat_fee: parseFloat(row.hazmat_fee),
+      total_price: (parseFloat(row.unit_price) * quantity) + parseFloat(row.hazmat_fee),
+      shipping_class: row.shipping_class,
+      shipping_estimate: estimateShipping([{
+        sku: row.sku,
+        container_size: row.container_size,
+        container_type: row.container_type,
+        weight: row.weight ? parseFloat(row.weight) : null,
+        weight_unit: row.weight_unit,
+        quantity,
+        hazmat: !!row.hazard_class,
+      }], { zip: ship_to_zip, residential, liftgate, mode: compliance?.ltl_only ? 'ltl' : undefined }),
+      hazmat_compliance: compliance,
+    };
+  });
+
+  // Get quantity-based discounts if applicable
+  if (quantity > 1 && prices.length > 0) {
+    const tierQuery = `
+      SELECT
+        min_quantity,
+        discount_percentage
+      FROM alliance_pricing_tiers
+      WHERE product_id = $1
+        AND min_quantity <= $2
+      ORDER BY min_quantity DESC
+      LIMIT 1
+    `;
+
+    for (const price of prices) {
+      const tierResult = await pool.query(tierQuery, [price.product_id, quantity]);
+
+      if (tierResult.rows.length > 0) {
+        const discount = tierResult.rows[0].discount_percentage;
+        const discountedPrice = price.unit_price * (1 - discount / 100);
+        price.unit_price = discountedPrice;
+        price.total_price = (discountedPrice * quantity) + (price.hazmat_fee || 0);
+      }
+    }
+  }
+
+  // Format response for AI consumption
+  const response: PricingOutput = {
+    found: true,
+    query: { product_name, sku, cas_number, container_size, quantity, ship_to_zip, ship_to_state, residential, po_box, liftgate },
+    results: prices,
+    disclaimer: 'Prices are in USD. Shipping is estimated separately (see shipping_estimate). Quote valid for 30 days.',
+    notes: prices.some(p => (p.hazmat_fee || 0) > 0)
+      ? 'Hazmat fee applies to this product due to dangerous goods classification. See hazmat_compliance for allowed service modes and restrictions.'
+      : null,
+  };
+
+  // Cache the response for 5 minutes
+  await pricingCache.set(cacheKey, response, { ttl: 300 });
+
+  return response;
+}
+
+export const pricingTool: ToolDefinition<PricingInput, PricingOutput> = {
+  name: 'pricing',
+  description: 'Exact catalog pricing for a product by SKU, name or CAS number, optionally for a container size and quantity, with a shipping estimate and hazmat compliance findings',
+  parameters: {
+    type: 'object',
+    properties: {
+      product_name: { type: 'string' },
+      sku: { type: 'string' },
+      cas_number: { type: 'string' },
+      container_size: { type: 'string', description: 'e.g. "5 Gallon", "55 Gallon", "275 Gallon"' },
+      quantity: { type: 'number' },
+      ship_to_zip: { type: 'string', description: 'Ship-to ZIP code, for the shipping estimate' },
+      ship_to_state: { type: 'string', description: 'Ship-to state code, e.g. "AK", for hazmat destination restrictions' },
+      residential: { type: 'boolean', description: 'Delivery to a residential address' },
+      po_box: { type: 'boolean', description: 'Ship-to address is a PO box' },
+      liftgate: { type: 'boolean', description: 'Delivery location has no loading dock' },
+    },
+  },
+  execute: getPricing,
+};
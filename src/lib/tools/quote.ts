@@ -0,0 +1,441 @@
+import { pool } from '@/lib/db';
+import { checkHazmatCompliance, HazmatCompliance, HazmatItem } from '@/lib/hazmat';
+import { estimateShipping, ShippingEstimate, ShippingItem } from '@/lib/shipping';
+import { ToolDefinition, ToolError } from './types';
+
+export interface QuoteItem {
+  sku?: string;
+  product_name?: string;
+  container_size?: string;
+  quantity: number;
+}
+
+export interface QuoteShippingAddress {
+  street?: string;
+  city?: string;
+  state?: string;
+  zip?: string;
+  residential?: boolean;
+  po_box?: boolean;
+}
+
+export interface QuoteInput {
+  // Revise this existing quote instead of creating a new one
+  quote_number?: string;
+  customer_email?: string;
+  customer_name?: string;
+  items: QuoteItem[];
+  notes?: string;
+  shipping_address?: QuoteShippingAddress;
+  // Delivery needs a liftgate (no loading dock)
+  liftgate?: boolean;
+}
+
+export interface QuoteLineItem {
+  sku: string;
+  product_name: string;
+  container_size: string;
+  unit_price: number;
+  quantity: number;
+  subtotal: number;
+  hazmat_fee: number;
+  total: number;
+}
+
+export interface QuoteOutput {
+  success: boolean;
+  quote_number: string;
+  quote_id: number;
+  revised: boolean;
+  customer: {
+    name: string;
+    email: string;
+  };
+  line_items: QuoteLineItem[];
+  summary: {
+    subtotal: number;
+    hazmat_fees: number;
+    shipping_estimate: number;
+    total: number;
+  };
+  shipping: ShippingEstimate;
+  // The destination and delivery options the estimate was made for
+  shipping_address?: QuoteShippingAddress;
+  liftgate?: boolean;
+  // Service modes, labels, documents and destination restrictions for hazmat items
+  hazmat_compliance: HazmatCompliance;
+  notes: {
+    validity: string;
+    payment_terms: string;
+    shipping: string;
+    hazmat: string | null;
+  };
+  created_at: string;
+}
+
+/**
+ * Generate a complete quote with multiple products
+ * Stores quote in database for tracking. When quote_number is given,
+ * the existing quote's line items are replaced instead.
+ */
+export async function createQuote(input: QuoteInput): Promise<QuoteOutput> {
+  const { quote_number, customer_email, customer_name, items, notes, shipping_address, liftgate } = input;
+
+  if (!items || items.length === 0) {
+    throw new ToolError('At least one item is required for a quote');
+  }
+
+  const client = await pool.connect();
+
+  try {
+    await client.query('BEGIN');
+
+    let quoteResult;
+
+    if (quote_number) {
+      // Revise the existing quote - its line items are rebuilt below
+      quoteResult = await client.query(
+        `UPDATE alliance_quotes
+         SET status = 'draft',
+             notes = COALESCE($2, notes),
+             metadata = metadata || $3::jsonb,
+             updated_at = NOW()
+         WHERE quote_number = $1
+         RETURNING id, quote_number`,
+        [
+          quote_number,
+          notes,
+          JSON.stringify(shipping_address ? { shipping_address } : {}),
+        ]
+      );
+
+      if (quoteResult.rows.length === 0) {
+        throw new ToolError('Quote not found', 404);
+      }
+
+      await client.query(
+        `DELETE FROM alliance_quote_items WHERE quote_id = $1`,
+        [quoteResult.rows[0].id]
+      );
+    } else {
+      // Create the quote record
+      quoteResult = await client.query(
+        `INSERT INTO alliance_quotes (
+          customer_email,
+          customer_name,
+          status,
+          notes,
+          metadata
+        ) VALUES ($1, $2, $3, $4, $5)
+        RETURNING id, quote_number`,
+        [
+          customer_email || 'unknown',
+          customer_name || 'Unknown Customer',
+          'draft',
+          notes,
+          JSON.stringify({ shipping_address }),
+        ]
+      );
+    }
+
+    const quoteId = quoteResult.rows[0].id;
+    const quoteNumber = quoteResult.rows[0].quote_number;
+
+    const lineItems: QuoteLineItem[] = [];
+    const shippingItems: ShippingItem[] = [];
+    const hazmatItems: HazmatItem[] = [];
+    let totalAmount = 0;
+    let totalHazmatFees = 0;
+
+    // Process each item in the quote
+    for (const item of items) {
+      // Find the product variant
+      let query = `
+        SELECT
+          p.id as product_id,
+          p.title as product_name,
+          p.hazard_class,
+          p.un_number,
+          p.packing_group,
+          v.id as variant_id,
+          v.sku,
+          v.container_size,
+          v.container_type,
+          v.price,
+          v.inventory_quantity,
+          v.weight,
+          v.weight_unit
+        FROM alliance_products p
+        JOIN alliance_product_variants v ON p.id = v.product_id
+        WHERE v.is_active = true
+      `;
+
+      const params: any[] = [];
+      let paramCount = 1;
+
+      if (item.sku) {
+        query += ` AND LOWER(v.sku) = LOWER($${paramCount})`;
+        params.push(item.sku);
+      } else if (item.product_name && item.container_size) {
+        query += ` AND LOWER(p.title) LIKE LOWER($${paramCount})`;
+        params.push(`%${item.product_name}%`);
+        paramCount++;
+        query += ` AND LOWER(v.container_size) LIKE LOWER($${paramCount})`;
+        params.push(`%${item.container_size}%`);
+      } else {
+        continue; // Skip items without enough info
+      }
+
+      query += ` LIMIT 1`;
+
+      const productResult = await client.query(query, params);
+
+      if (productResult.rows.length === 0) {
+        // Track items that couldn't be found
+        lineItems.push({
+          sku: item.sku || 'NOT_FOUND',
+          product_name: item.product_name || 'Product not found',
+          container_size: item.container_size || 'N/A',
+          unit_price: 0,
+          quantity: item.quantity,
+          subtotal: 0,
+          hazmat_fee: 0,
+          total: 0,
+        });
+        continue;
+      }
+
+      const product = productResult.rows[0];
+      let unitPrice = parseFloat(product.price);
+
+      // Check for quantity discounts
+      if (item.quantity > 1) {
+        const tierResult = await client.query(
+          `SELECT discount_percentage
+           FROM alliance_pricing_tiers
+           WHERE product_id = $1 AND min_quantity <= $2
+           ORDER BY min_quantity DESC
+           LIMIT 1`,
+          [product.product_id, item.quantity]
+        );
+
+        if (tierResult.rows.length > 0) {
+          const discount = tierResult.rows[0].discount_percentage;
+          unitPrice = unitPrice * (1 - discount / 100);
+        }
+      }
+
+      const hazmatFee = product.hazard_class ? 35.00 : 0;
+      const subtotal = unitPrice * item.quantity;
+      const lineTotal = subtotal + hazmatFee;
+
+      // Insert quote line item
+      await client.query(
+        `INSERT INTO alliance_quote_items (
+          quote_id,
+          product_id,
+          variant_id,
+          quantity,
+          unit_price,
+          total_price,
+          metadata
+        ) VALUES ($1, $2, $3, $4, $5, $6, $7)`,
+        [
+          quoteId,
+          product.product_id,
+          product.variant_id,
+          item.quantity,
+          unitPrice,
+          lineTotal,
+          JSON.stringify({
+            sku: product.sku,
+            container_size: product.container_size,
+            hazmat_fee: hazmatFee,
+          }),
+        ]
+      );
+
+      lineItems.push({
+        sku: product.sku,
+        product_name: product.product_name,
+        container_size: product.container_size,
+        unit_price: unitPrice,
+        quantity: item.quantity,
+        subtotal: subtotal,
+        hazmat_fee: hazmatFee,
+        total: lineTotal,
+      });
+
+      shippingItems.push({
+        sku: product.sku,
+        container_size: product.container_size,
+        container_type: product.container_type,
+        weight: product.weight ? parseFloat(product.weight) : null,
+        weight_unit: product.weight_unit,
+        quantity: item.quantity,
+        hazmat: !!product.hazard_class,
+      });
+
+      hazmatItems.push({
+        sku: product.sku,
+        un_number: product.un_number,
+        hazard_class: product.hazard_class,
+        packing_group: product.packing_group,
+        container_size: product.container_size,
+        container_type: product.container_type,
+        quantity: item.quantity,
+      });
+
+      totalAmount += lineTotal;
+      totalHazmatFees += hazmatFee;
+    }
+
+    const compliance = checkHazmatCompliance(hazmatItems, shipping_address);
+
+    // Estimate shipping from weights, destination zone and surcharges
+    const shipping = estimateShipping(shippingItems, {
+      zip: shipping_address?.zip,
+      residential: shipping_address?.residential,
+      liftgate,
+      mode: compliance.ltl_only ? 'ltl' : undefined,
+    });
+    const shippingEstimate = shipping.total;
+    const hasFreightItems = shipping.mode === 'ltl';
+
+    // Update quote with totals
+    await client.query(
+      `UPDATE alliance_quotes
+       SET total_amount = $1,
+           metadata = metadata || $2::jsonb,
+           updated_at = NOW()
+       WHERE id = $3`,
+      [
+        totalAmount,
+        JSON.stringify({
+          shipping_estimate: shippingEstimate,
+          shipping_breakdown: shipping.breakdown,
+          hazmat_fees: totalHazmatFees,
+          freight_required: hasFreightItems,
+          hazmat_compliance: compliance.hazmat
+            ? { allowed_modes: compliance.allowed_modes, restrictions: compliance.restrictions }
+            : undefined,
+        }),
+        quoteId,
+      ]
+    );
+
+    await client.query('COMMIT');
+
+    return {
+      success: true,
+      quote_number: quoteNumber,
+      quote_id: quoteId,
+      revised: !!quote_number,
+      customer: {
+        name: customer_name || 'Unknown Customer',
+        email: customer_email || 'unknown',
+      },
+      line_items: lineItems,
+      summary: {
+        subtotal: lineItems.reduce((sum, item) => sum + item.subtotal, 0),
+        hazmat_fees: totalHazmatFees,
+        shipping_estimate: shippingEstimate,
+        total: totalAmount + shippingEstimate,
+      },
+      shipping,
+      shipping_address,
+      liftgate,
+      hazmat_compliance: compliance,
+      notes: {
+        validity: 'Quote valid for 30 days',
+        payment_terms: 'Net 30 for approved accounts',
+        shipping: hasFreightItems
+          ? `Freight shipping required (${shipping.carrier}) - estimate`
+          : `${shipping.carrier} - estimate`,
+        hazmat: compliance.hazmat
+          ? `Hazmat fees apply due to dangerous goods classification. ${compliance.constraints.join('. ')}.`
+          : null,
+      },
+      created_at: new Date().toISOString(),
+    };
+
+  } catch (error) {
+    await client.query('ROLLBACK');
+    throw error;
+  } finally {
+    client.release();
+  }
+}
+
+/**
+ * Retrieve an existing quote with its line items
+ */
+export async function getQuoteByNumber(quoteNumber: string): Promise<Record<string, any>> {
+  if (!quoteNumber) {
+    throw new ToolError('Quote number is required');
+  }
+
+  const quoteResult = await pool.query(
+    `SELECT
+      q.*,
+      json_agg(
+        json_build_object(
+          'product_id', qi.product_id,
+          'quantity', qi.quantity,
+          'unit_price', qi.unit_price,
+          'total_price', qi.total_price,
+          'metadata', qi.metadata
+        )
+      ) as items
+    FROM alliance_quotes q
+    LEFT JOIN alliance_quote_items qi ON q.id = qi.quote_id
+    WHERE q.quote_number = $1
+    GROUP BY q.id`,
+    [quoteNumber]
+  );
+
+  if (quoteResult.rows.length === 0) {
+    throw new ToolError('Quote not found', 404);
+  }
+
+  return quoteResult.rows[0];
+}
+
+export const quoteTool: ToolDefinition<QuoteInput, QuoteOutput> = {
+  name: 'quote',
+  description: 'Create a formal quote for one or more items, with a shipping estimate and its breakdown, and hazmat compliance findings (allowed service modes, labels, documents, destination restrictions). Each item needs a SKU, or a product name with a container size. Pass quote_number to revise the active quote of this conversation.',
+  parameters: {
+    type: 'object',
+    properties: {
+      quote_number: { type: 'string', description: 'Active quote of this conversation, to revise instead of creating a new one' },
+      items: {
+        type: 'array',
+        items: {
+          type: 'object',
+          properties: {
+            sku: { type: 'string' },
+            product_name: { type: 'string' },
+            container_size: { type: 'string' },
+            quantity: { type: 'number' },
+          },
+          required: ['quantity'],
+        },
+      },
+      notes: { type: 'string' },
+      shipping_address: {
+        type: 'object',
+        properties: {
+          street: { type: 'string' },
+          city: { type: 'string' },
+          state: { type: 'string' },
+          zip: { type: 'string', description: 'Ship-to ZIP code, for the shipping estimate' },
+          residential: { type: 'boolean' },
+          po_box: { type: 'boolean' },
+        },
+      },
+      liftgate: { type: 'boolean', description: 'Delivery location has no loading dock' },
+    },
+    required: ['items'],
+  },
+  execute: createQuote,
+};
@@ -0,0 +1,197 @@
+import { pool } from '@/lib/db';
+import { formatSpecKey, searchSpecChunks, SpecPassage, SpecSource } from '@/lib/product-specs';
+import { ToolDefinition, ToolError } from './types';
+
+export interface SpecLookupInput {
+  question: string;
+  product_id?: number;
+  product_name?: string;
+  sku?: string;
+  cas_number?: string;
+}
+
+export interface SpecAnswer {
+  spec: string;
+  value: string;
+  // 'product' for catalog columns like CAS number and formula
+  source: SpecSource | 'product';
+}
+
+export interface SpecLookupOutput {
+  found: boolean;
+  question: string;
+  product?: {
+    id: number;
+    name: string;
+    cas_number?: string;
+  };
+  // Exact values whose spec the question names
+  answers: SpecAnswer[];
+  // Closest catalog passages, with where they came from
+  passages: SpecPassage[];
+  message?: string;
+}
+
+// Passages less similar than this don't count as answering the question
+const MIN_PASSAGE_SIMILARITY = parseFloat(process.env.SPEC_MIN_SIMILARITY || '0.4');
+
+// How customers ask about a spec, keyed by the usual spec name
+const SPEC_ALIASES: Record<string, string[]> = {
+  'flash point': ['flash point', 'flashpoint'],
+  'boiling point': ['boiling point'],
+  'melting point': ['melting point', 'freezing point'],
+  'purity': ['purity', 'assay', 'concentration', 'how pure', 'percent'],
+  'grade': ['grade', 'usp', 'acs', 'nf', 'fcc', 'reagent', 'kosher'],
+  'density': ['density', 'specific gravity', 'weight per gallon', 'lbs per gallon'],
+  'ph': ['ph'],
+  'viscosity': ['viscosity'],
+  'appearance': ['appearance', 'color', 'colour', 'odor'],
+  'shelf life': ['shelf life', 'expiration', 'expiry'],
+  'solubility': ['solubility', 'soluble', 'miscible'],
+  'molecular weight': ['molecular weight'],
+  'chemical formula': ['formula'],
+  'cas number': ['cas'],
+  'un number': ['un number', 'un#'],
+  'hazard class': ['hazard class', 'hazmat class'],
+};
+
+// Catalog columns answered as specs
+const PRODUCT_FIELDS = ['cas_number', 'chemical_formula', 'molecular_weight', 'un_number', 'hazard_class'];
+
+function normalize(text: string): string {
+  return ` ${text.toLowerCase().replace(/[^a-z0-9#]+/g, ' ').trim()} `;
+}
+
+/**
+ * Whether the question asks about a spec key, by its own name or an alias
+ */
+function asksAbout(question: string, key: string): boolean {
+  const normalizedKey = normalize(formatSpecKey(key));
+  if (question.indexOf(normalizedKey) !== -1) {
+    return true;
+  }
+
+  return Object.keys(SPEC_ALIASES).some(name => {
+    const aliases = SPEC_ALIASES[name].map(normalize);
+    const keyMatches = normalizedKey.indexOf(normalize(name)) !== -1 ||
+      aliases.some(alias => normalizedKey.indexOf(alias) !== -1);
+    return keyMatches && aliases.some(alias => question.indexOf(alias) !== -1);
+  });
+}
+
+/**
+ * Answer a technical question about a product from its catalog data:
+ * exact values from the specs and product fields the question names,
+ * plus the closest passages from its specs, description and body HTML.
+ * When neither answers it, says so rather than leaving room to guess.
+ */
+export async function lookupSpecs(input: SpecLookupInput): Promise<SpecLookupOutput> {
+  const { question, product_id, product_name, sku, cas_number } = input;
+
+  if (!question) {
+    throw new ToolError('Question is required');
+  }
+  if (!product_id && !product_name && !sku && !cas_number) {
+    throw new ToolError('Must provide product_id, product_name, sku, or cas_number');
+  }
+
+  let query = `
+    SELECT DISTINCT p.id, p.title, p.cas_number, p.chemical_formula, p.molecular_weight,
+           p.un_number, p.hazard_class, p.specs
+    FROM alliance_products p
+    LEFT JOIN alliance_product_variants v ON p.id = v.product_id
+    WHERE p.status = 'active'
+  `;
+  const params: any[] = [];
+
+  if (product_id) {
+    params.push(product_id);
+    query += ` AND p.id = $1`;
+  } else if (sku) {
+    params.push(sku);
+    query += ` AND LOWER(v.sku) = LOWER($1)`;
+  } else if (cas_number) {
+    params.push(cas_number);
+    query += ` AND p.cas_number = $1`;
+  } else {
+    params.push(`%${product_name}%`);
+    query += ` AND (
+      LOWER(p.title) LIKE LOWER($1)
+      OR EXISTS (SELECT 1 FROM unnest(p.synonyms) s WHERE LOWER(s) LIKE LOWER($1))
+    )`;
+  }
+
+  query += ` ORDER BY p.title LIMIT 1`;
+
+  const productResult = await pool.query(query, params);
+  const product = productResult.rows[0];
+
+  if (!product) {
+    return {
+      found: false,
+      question,
+      answers: [],
+      passages: [],
+      message: 'No product found matching your criteria',
+    };
+  }
+
+  const normalizedQuestion = normalize(question);
+  const answers: SpecAnswer[] = [];
+
+  const specs: Record<string, any> = product.specs || {};
+  Object.keys(specs).forEach(key => {
+    const value = specs[key];
+    if (value === null || value === undefined || value === '') return;
+    if (asksAbout(normalizedQuestion, key)) {
+      answers.push({
+        spec: formatSpecKey(key),
+        value: typeof value === 'object' ? JSON.stringify(value) : String(value),
+        source: 'specs',
+      });
+    }
+  });
+
+  PRODUCT_FIELDS.forEach(field => {
+    if (product[field] && asksAbout(normalizedQuestion, field)) {
+      answers.push({ spec: formatSpecKey(field), value: String(product[field]), source: 'product' });
+    }
+  });
+
+  const passages = (await searchSpecChunks(product.id, question))
+    .filter(passage => passage.similarity >= MIN_PASSAGE_SIMILARITY);
+
+  const found = answers.length > 0 || passages.length > 0;
+
+  return {
+    found,
+    question,
+    product: {
+      id: product.id,
+      name: product.title,
+      cas_number: product.cas_number || undefined,
+    },
+    answers,
+    passages,
+    message: found
+      ? undefined
+      : `Our catalog data for ${product.title} does not cover this. Say so and offer to confirm with our technical team - do not estimate the value.`,
+  };
+}
+
+export const specLookupTool: ToolDefinition<SpecLookupInput, SpecLookupOutput> = {
+  name: 'spec-lookup',
+  description: 'Answer a technical question about a product (flash point, grade, purity, density, etc.) from its catalog specs and description, with the source of each value. Reports when the catalog does not have the answer.',
+  parameters: {
+    type: 'object',
+    properties: {
+      question: { type: 'string', description: "The customer's question, e.g. \"what is the flash point\"" },
+      product_id: { type: 'number', description: 'Product ID from a product-search result' },
+      product_name: { type: 'string' },
+      sku: { type: 'string' },
+      cas_number: { type: 'string' },
+    },
+    required: ['question'],
+  },
+  execute: lookupSpecs,
+};
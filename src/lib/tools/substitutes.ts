@@ -0,0 +1,304 @@
+import { pool } from '@/lib/db';
+import { EMBEDDING_DIMENSIONS, getLLMProvider } from '@/lib/llm';
+import type { ProductSearchVariant } from './product-search';
+import { ToolDefinition, ToolError } from './types';
+
+export interface SubstitutesInput {
+  product_id?: number;
+  product_name?: string;
+  sku?: string;
+  cas_number?: string;
+  // Container the customer needs; alternatives stocking it rank higher
+  container_size?: string;
+  limit?: number;
+}
+
+export interface Substitute {
+  product_id: number;
+  name: string;
+  cas_number?: string;
+  product_type?: string;
+  grade?: string;
+  score: number;
+  similarity: number | null;
+  reason: string;
+  matches: {
+    cas_number: boolean;
+    product_type: boolean;
+    grade: boolean;
+    container_size: boolean;
+  };
+  // In-stock variants only
+  variants: ProductSearchVariant[];
+}
+
+export interface SubstitutesOutput {
+  found: boolean;
+  query: SubstitutesInput;
+  source?: {
+    product_id: number;
+    name: string;
+    cas_number?: string;
+    product_type?: string;
+    grade?: string;
+    in_stock: boolean;
+  };
+  message?: string;
+  substitutes: Substitute[];
+}
+
+// The product alternatives are wanted for, as its query returns it
+interface SourceProductRow {
+  id: number;
+  title: string;
+  cas_number: string | null;
+  product_type: string | null;
+  grade: string | null;
+  embedding: string | null;
+  in_stock: boolean;
+  container_sizes: string[];
+}
+
+// A candidate alternative with its in-stock variants
+interface CandidateRow {
+  id: number;
+  title: string;
+  cas_number: string | null;
+  product_type: string | null;
+  grade: string | null;
+  similarity: number | null;
+  variants: ProductSearchVariant[];
+}
+
+// Embedding similarity an alternative needs when it doesn't share the CAS number
+const MIN_SIMILARITY = 0.75;
+
+// Candidates scored per request, before ranking
+const CANDIDATE_LIMIT = 25;
+
+// How much each signal counts towards the ranking score
+const WEIGHTS = {
+  cas_number: 0.4,
+  product_type: 0.15,
+  grade: 0.15,
+  similarity: 0.2,
+  container_size: 0.1,
+};
+
+function sameText(a?: string | null, b?: string | null): boolean {
+  return !!a && !!b && a.trim().toLowerCase() === b.trim().toLowerCase();
+}
+
+/**
+ * The product alternatives are wanted for, by ID, SKU, CAS number or name.
+ * A name with no catalog match falls back to the closest product by embedding.
+ */
+async function findSourceProduct(input: SubstitutesInput): Promise<SourceProductRow | null> {
+  const { product_id, product_name, sku, cas_number } = input;
+
+  const select = `
+    SELECT p.id, p.title, p.cas_number, p.product_type, p.specs->>'grade' as grade, p.embedding::text as embedding,
+      EXISTS (
+        SELECT 1 FROM alliance_product_variants sv
+        WHERE sv.product_id = p.id AND sv.is_active = true AND sv.inventory_quantity > 0
+      ) as in_stock,
+      ARRAY(
+        SELECT sv.container_size FROM alliance_product_variants sv
+        WHERE sv.product_id = p.id AND sv.is_active = true AND sv.container_size IS NOT NULL
+      ) as container_sizes
+    FROM alliance_products p
+  `;
+
+  let result;
+  if (product_id) {
+    result = await pool.query(`${select} WHERE p.id = $1`, [product_id]);
+  } else if (sku) {
+    result = await pool.query(
+      `${select} WHERE p.id IN (SELECT product_id FROM alliance_product_variants WHERE LOWER(sku) = LOWER($1))`,
+      [sku]
+    );
+  } else if (cas_number) {
+    result = await pool.query(`${select} WHERE p.cas_number = $1 ORDER BY p.status = 'active' DESC LIMIT 1`, [cas_number]);
+  } else if (product_name) {
+    result = await pool.query(
+      `${select} WHERE LOWER(p.title) LIKE LOWER($1) ORDER BY length(p.title) LIMIT 1`,
+      [`%${product_name}%`]
+    );
+
+    if (result.rows.length === 0) {
+      const embedding = await getLLMProvider().embed(product_name, EMBEDDING_DIMENSIONS);
+      result = await pool.query(
+        `${select} WHERE p.embedding IS NOT NULL ORDER BY p.embedding <=> $1::vector LIMIT 1`,
+        [`[${embedding.join(',')}]`]
+      );
+    }
+  }
+
+  return result?.rows[0] || null;
+}
+
+/**
+ * Explain a suggestion in one line, e.g. "Same CAS number (67-63-0);
+ * same grade (USP); in stock in 1 Gallon, 5 Gallon"
+ */
+function buildReason(candidate: Omit<Substitute, 'reason' | 'score'>): string {
+  const parts: string[] = [];
+
+  if (candidate.matches.cas_number) {
+    parts.push(`Same CAS number (${candidate.cas_number})`);
+  } else if (candidate.similarity !== null) {
+    parts.push(`Closely related product (${Math.round(candidate.similarity * 100)}% match)`);
+  }
+  if (candidate.matches.grade) {
+    parts.push(`same grade (${candidate.grade})`);
+  }
+  if (candidate.matches.product_type) {
+    parts.push(`same product type (${candidate.product_type})`);
+  }
+
+  const sizes: string[] = [];
+  candidate.variants.forEach(variant => {
+    if (variant.container_size && sizes.indexOf(variant.container_size) === -1) sizes.push(variant.container_size);
+  });
+  parts.push(`in stock in ${sizes.length > 0 ? sizes.join(', ') : 'current sizes'}`);
+
+  const reason = parts.join('; ');
+  return reason.charAt(0).toUpperCase() + reason.slice(1);
+}
+
+/**
+ * Recommend in-stock alternatives to a product or CAS number. Candidates
+ * share the CAS number or sit close to the product by embedding, and are
+ * ranked by CAS number, product type, grade, similarity and whether they
+ * stock the container size wanted. Each comes with a short reason.
+ */
+export async function findSubstitutes(input: SubstitutesInput): Promise<SubstitutesOutput> {
+  const { product_id, product_name, sku, cas_number, container_size } = input;
+
+  if (!product_id && !product_name && !sku && !cas_number) {
+    throw new ToolError('Must provide product_id, product_name, sku, or cas_number');
+  }
+
+  const limit = Math.min(input.limit || 3, 10);
+  const source = await findSourceProduct(input);
+  const sourceCas = cas_number || source?.cas_number || null;
+
+  if (!source && !sourceCas) {
+    return {
+      found: false,
+      query: input,
+      message: 'No product found matching your criteria',
+      substitutes: [],
+    };
+  }
+
+  const candidatesResult = await pool.query(
+    `SELECT
+      p.id,
+      p.title,
+      p.cas_number,
+      p.product_type,
+      p.specs->>'grade' as grade,
+      CASE WHEN $2::vector IS NULL OR p.embedding IS NULL THEN NULL
+           ELSE 1 - (p.embedding <=> $2::vector) END as similarity,
+      json_agg(
+        json_build_object(
+          'sku', v.sku,
+          'container_size', v.container_size,
+          'price', v.price,
+          'available', true
+        ) ORDER BY v.price ASC
+      ) as variants
+    FROM alliance_products p
+    JOIN alliance_product_variants v ON p.id = v.product_id
+    WHERE p.status = 'active'
+      AND p.id <> COALESCE($1, 0)
+      AND v.is_active = true
+      AND v.inventory_quantity > 0
+      AND (p.cas_number = $3 OR ($2::vector IS NOT NULL AND p.embedding IS NOT NULL))
+    GROUP BY p.id
+    ORDER BY (p.cas_number = $3) DESC NULLS LAST, similarity DESC NULLS LAST
+    LIMIT $4`,
+    [source?.id || null, source?.embedding || null, sourceCas, CANDIDATE_LIMIT]
+  );
+
+  const wantedSizes: string[] = container_size
+    ? [container_size]
+    : (source?.container_sizes || []);
+
+  const substitutes: Substitute[] = candidatesResult.rows
+    .map((row: CandidateRow) => {
+      const similarity = row.similarity === null ? null : Math.round(row.similarity * 1000) / 1000;
+      const variants = row.variants.map((v: ProductSearchVariant): ProductSearchVariant => ({
+        sku: v.sku,
+        container_size: v.container_size,
+        price: Number(v.price),
+        available: v.available,
+      }));
+      const matches = {
+        cas_number: sameText(row.cas_number, sourceCas),
+        product_type: sameText(row.product_type, source?.product_type),
+        grade: sameText(row.grade, source?.grade),
+        container_size: variants.some(v => wantedSizes.some(size => sameText(v.container_size, size))),
+      };
+
+      const candidate = {
+        product_id: row.id,
+        name: row.title,
+        cas_number: row.cas_number || undefined,
+        product_type: row.product_type || undefined,
+        grade: row.grade || undefined,
+        similarity,
+        matches,
+        variants,
+      };
+
+      const score =
+        (matches.cas_number ? WEIGHTS.cas_number : 0) +
+        (matches.product_type ? WEIGHTS.product_type : 0) +
+        (matches.grade ? WEIGHTS.grade : 0) +
+        (similarity || 0) * WEIGHTS.similarity +
+        (matches.container_size ? WEIGHTS.container_size : 0);
+
+      return { ...candidate, score: Math.round(score * 1000) / 1000, reason: buildReason(candidate) };
+    })
+    .filter(candidate => candidate.matches.cas_number || (candidate.similarity || 0) >= MIN_SIMILARITY)
+    .sort((a, b) => b.score - a.score)
+    .slice(0, limit);
+
+  return {
+    found: substitutes.length > 0,
+    query: input,
+    source: source
+      ? {
+          product_id: source.id,
+          name: source.title,
+          cas_number: source.cas_number || undefined,
+          product_type: source.product_type || undefined,
+          grade: source.grade || undefined,
+          in_stock: source.in_stock,
+        }
+      : undefined,
+    message: substitutes.length === 0
+      ? 'No in-stock alternatives found. Offer to have our team source one.'
+      : undefined,
+    substitutes,
+  };
+}
+
+export const substitutesTool: ToolDefinition<SubstitutesInput, SubstitutesOutput> = {
+  name: 'substitutes',
+  description: 'Suggest in-stock alternatives to a product or CAS number, ranked by shared CAS number, product type, grade, similarity and container sizes, each with a short reason',
+  parameters: {
+    type: 'object',
+    properties: {
+      product_id: { type: 'number', description: 'Product ID from a product-search result' },
+      product_name: { type: 'string' },
+      sku: { type: 'string' },
+      cas_number: { type: 'string' },
+      container_size: { type: 'string', description: 'Container the customer needs, e.g. "55 Gallon"' },
+      limit: { type: 'number', description: 'Maximum alternatives to return (default 3)' },
+    },
+  },
+  execute: findSubstitutes,
+};
@@ -0,0 +1,40 @@
+/**
+ * Shared types for the in-process tool registry
+ */
+
+export interface ToolDefinition<TInput = any, TOutput = any> {
+  name: string;
+  description: string;
+  // JSON schema for the tool input, exposed to the model for tool calling
+  parameters: Record<string, any>;
+  execute: (input: TInput) => Promise<TOutput>;
+}
+
+/**
+ * Error raised by a tool for bad input or an unavailable upstream.
+ * Routes map it to an HTTP response with the given status and body.
+ */
+export class ToolError extends Error {
+  status: number;
+  body?: Record<string, any>;
+
+  constructor(message: string, status: number = 400, body?: Record<string, any>) {
+    super(message);
+    this.name = 'ToolError';
+    this.status = status;
+    this.body = body;
+  }
+}
+
+export interface ToolCall {
+  tool: string;
+  parameters: any;
+}
+
+export interface ToolResult<TOutput = any> {
+  tool: string;
+  data?: TOutput;
+  error?: string;
+  // The tool's upstream was down or timed out - the data may exist, we just couldn't get it
+  unavailable?: boolean;
+}
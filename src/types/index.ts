@@ -18,6 +18,7 @@ export interface AllianceProduct {
   hs_code?: string;
   un_number?: string;
   hazard_class?: string;
+  packing_group?: string;
   sds_url?: string;
   
   // Specifications and metadata